@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { AnthropicMessageBuilder } from "./anthropic-stream-transformer";
+
+describe("AnthropicMessageBuilder", () => {
+	it("ends the stream with an error event when generation fails", () => {
+		const builder = new AnthropicMessageBuilder("gemini-2.5-flash");
+		builder.process({ type: "text", data: "Partial" });
+
+		expect(builder.process({ type: "error", data: "Stream request failed: 500" })).toEqual([
+			{ type: "error", error: { type: "api_error", message: "Stream request failed: 500" } }
+		]);
+		expect(builder.finish()).toEqual([]);
+	});
+
+	it("stops a finished message", () => {
+		const builder = new AnthropicMessageBuilder("gemini-2.5-flash");
+		builder.process({ type: "text", data: "Hello" });
+		builder.process({ type: "finish", data: { reason: "STOP" } });
+
+		const events = builder.finish();
+		expect(events.map((event) => event.type)).toEqual(["content_block_stop", "message_delta", "message_stop"]);
+		expect(builder.getMessage().content).toEqual([{ type: "text", text: "Hello" }]);
+	});
+});
@@ -0,0 +1,220 @@
+import { StreamChunk, ReasoningData, GeminiFunctionCall, UsageData, FinishReasonData } from "./types";
+import { FinishReasonMapper } from "./helpers/finish-reason-mapper";
+import { UsageMapper } from "./helpers/usage-mapper";
+import {
+	AnthropicMessagesResponse,
+	AnthropicStreamEvent,
+	AnthropicTextBlock,
+	AnthropicThinkingBlock
+} from "./types/anthropic";
+
+// Type guard functions
+function isReasoningData(data: unknown): data is ReasoningData {
+	return typeof data === "object" && data !== null && "reasoning" in data;
+}
+
+function isGeminiFunctionCall(data: unknown): data is GeminiFunctionCall {
+	return typeof data === "object" && data !== null && "name" in data && "args" in data;
+}
+
+function isUsageData(data: unknown): data is UsageData {
+	return typeof data === "object" && data !== null && "inputTokens" in data && "outputTokens" in data;
+}
+
+function isFinishReasonData(data: unknown): data is FinishReasonData {
+	return typeof data === "object" && data !== null && "reason" in data;
+}
+
+/**
+ * Builds an Anthropic Messages API response from Gemini stream chunks.
+ * Each processed chunk returns the streaming events it produced, so the same
+ * builder serves both the SSE transformer and non-streaming requests.
+ */
+export class AnthropicMessageBuilder {
+	private message: AnthropicMessagesResponse;
+	private currentBlock: AnthropicTextBlock | AnthropicThinkingBlock | null = null;
+	private finishData: FinishReasonData | undefined;
+	private failed = false;
+
+	constructor(model: string) {
+		this.message = {
+			id: `msg_${crypto.randomUUID()}`,
+			type: "message",
+			role: "assistant",
+			model,
+			content: [],
+			stop_reason: null,
+			stop_sequence: null,
+			usage: { input_tokens: 0, output_tokens: 0 }
+		};
+	}
+
+	/**
+	 * Event announcing the message before any content is produced.
+	 */
+	public start(): AnthropicStreamEvent[] {
+		return [{ type: "message_start", message: structuredClone(this.message) }];
+	}
+
+	/**
+	 * Consumes a single stream chunk and returns the events it produced.
+	 */
+	public process(chunk: StreamChunk): AnthropicStreamEvent[] {
+		switch (chunk.type) {
+			case "text":
+			case "thinking_content":
+				return typeof chunk.data === "string" && chunk.data ? this.appendText(chunk.data) : [];
+			case "real_thinking":
+				return typeof chunk.data === "string" && chunk.data ? this.appendThinking(chunk.data) : [];
+			case "reasoning":
+				return isReasoningData(chunk.data) && chunk.data.reasoning ? this.appendThinking(chunk.data.reasoning) : [];
+			case "tool_code":
+				return isGeminiFunctionCall(chunk.data) ? this.addToolUse(chunk.data) : [];
+			case "usage":
+				if (isUsageData(chunk.data)) {
+					this.message.usage = UsageMapper.toAnthropic(chunk.data);
+				}
+				return [];
+			case "finish":
+				if (isFinishReasonData(chunk.data)) {
+					this.finishData = chunk.data;
+				}
+				return [];
+			case "error":
+				return typeof chunk.data === "string" ? this.fail(chunk.data) : [];
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * Closes any open content block and sets the stop reason.
+	 */
+	public finish(): AnthropicStreamEvent[] {
+		if (this.failed) {
+			return [];
+		}
+		const events = this.closeCurrentBlock();
+		const hasToolUse = this.message.content.some((block) => block.type === "tool_use");
+		this.message.stop_reason = FinishReasonMapper.toAnthropic(this.finishData, hasToolUse);
+
+		events.push(
+			{
+				type: "message_delta",
+				delta: { stop_reason: this.message.stop_reason, stop_sequence: null },
+				usage: { ...this.message.usage }
+			},
+			{ type: "message_stop" }
+		);
+		return events;
+	}
+
+	/**
+	 * Ends the stream with an error event, like the Anthropic API does when generation fails midway.
+	 * @param message - Why generation failed
+	 */
+	public fail(message: string): AnthropicStreamEvent[] {
+		if (this.failed) {
+			return [];
+		}
+		this.failed = true;
+		return [{ type: "error", error: { type: "api_error", message } }];
+	}
+
+	public getMessage(): AnthropicMessagesResponse {
+		return this.message;
+	}
+
+	private appendText(text: string): AnthropicStreamEvent[] {
+		const events: AnthropicStreamEvent[] = [];
+		if (this.currentBlock?.type !== "text") {
+			events.push(...this.closeCurrentBlock());
+			events.push(this.openBlock({ type: "text", text: "" }));
+		}
+
+		(this.currentBlock as AnthropicTextBlock).text += text;
+		events.push({ type: "content_block_delta", index: this.blockIndex(), delta: { type: "text_delta", text } });
+		return events;
+	}
+
+	private appendThinking(thinking: string): AnthropicStreamEvent[] {
+		const events: AnthropicStreamEvent[] = [];
+		if (this.currentBlock?.type !== "thinking") {
+			events.push(...this.closeCurrentBlock());
+			events.push(this.openBlock({ type: "thinking", thinking: "", signature: "" }));
+		}
+
+		(this.currentBlock as AnthropicThinkingBlock).thinking += thinking;
+		events.push({
+			type: "content_block_delta",
+			index: this.blockIndex(),
+			delta: { type: "thinking_delta", thinking }
+		});
+		return events;
+	}
+
+	private addToolUse(functionCall: GeminiFunctionCall): AnthropicStreamEvent[] {
+		const events = this.closeCurrentBlock();
+		const input = (functionCall.args ?? {}) as Record<string, unknown>;
+		const id = functionCall.id || `toolu_${crypto.randomUUID()}`;
+
+		this.message.content.push({ type: "tool_use", id, name: functionCall.name, input });
+		const index = this.blockIndex();
+		events.push(
+			{
+				type: "content_block_start",
+				index,
+				content_block: { type: "tool_use", id, name: functionCall.name, input: {} }
+			},
+			{ type: "content_block_delta", index, delta: { type: "input_json_delta", partial_json: JSON.stringify(input) } },
+			{ type: "content_block_stop", index }
+		);
+		return events;
+	}
+
+	private openBlock(block: AnthropicTextBlock | AnthropicThinkingBlock): AnthropicStreamEvent {
+		this.message.content.push(block);
+		this.currentBlock = block;
+		return { type: "content_block_start", index: this.blockIndex(), content_block: { ...block } };
+	}
+
+	private closeCurrentBlock(): AnthropicStreamEvent[] {
+		if (!this.currentBlock) {
+			return [];
+		}
+		const index = this.message.content.indexOf(this.currentBlock);
+		this.currentBlock = null;
+		return [{ type: "content_block_stop", index }];
+	}
+
+	private blockIndex(): number {
+		return this.message.content.length - 1;
+	}
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into Anthropic Messages API server-sent events.
+ */
+export function createAnthropicStreamTransformer(
+	builder: AnthropicMessageBuilder
+): TransformStream<StreamChunk, Uint8Array> {
+	const encoder = new TextEncoder();
+	const send = (controller: TransformStreamDefaultController<Uint8Array>, events: AnthropicStreamEvent[]) => {
+		for (const event of events) {
+			controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+		}
+	};
+
+	return new TransformStream({
+		start(controller) {
+			send(controller, builder.start());
+		},
+		transform(chunk, controller) {
+			send(controller, builder.process(chunk));
+		},
+		flush(controller) {
+			send(controller, builder.finish());
+		}
+	});
+}
@@ -101,13 +101,20 @@ export class AuthManager {
 	}
 
 	/**
-	 * Get the current count of available vs total credentials
+	 * Get the configured credential JSON strings from GCP_SERVICE_ACCOUNT_* variables
 	 */
-	public async getAccountsMetric(): Promise<{ available: number; total: number }> {
-		const totalAccounts = Array.from({ length: 100 }, (_, i) => {
+	private getConfiguredCredentials(): string[] {
+		return Array.from({ length: 100 }, (_, i) => {
 			const key = `GCP_SERVICE_ACCOUNT_${i}` as keyof Env;
 			return (this.env[key] ?? "") as string;
-		}).filter(s => s.length > 0).length;
+		}).filter((s) => s.length > 0);
+	}
+
+	/**
+	 * Get the current count of available vs total credentials
+	 */
+	public async getAccountsMetric(): Promise<{ available: number; total: number }> {
+		const totalAccounts = this.getConfiguredCredentials().length;
 
 		let availableAccounts = 0;
 		for (let i = 0; i < totalAccounts; i++) {
@@ -122,6 +129,38 @@ export class AuthManager {
 		};
 	}
 
+	/**
+	 * Get per-model credential availability: how many credentials exist, how many are
+	 * allowed for the model by MODEL_RESTRICTION_* and how many of those are not exhausted.
+	 */
+	public async getModelAvailability(
+		modelIds: string[]
+	): Promise<Record<string, { total: number; allowed: number; available: number }>> {
+		const total = this.getConfiguredCredentials().length;
+
+		// Exhaustion is tracked per credential, so look it up once for all models
+		const exhausted: boolean[] = [];
+		for (let i = 0; i < total; i++) {
+			exhausted.push(await this.isCredentialExhausted(i));
+		}
+
+		const availability: Record<string, { total: number; allowed: number; available: number }> = {};
+		for (const modelId of modelIds) {
+			let allowed = 0;
+			let available = 0;
+			for (let i = 0; i < total; i++) {
+				if (this.isCredentialAllowedForModel(i, modelId)) {
+					allowed++;
+					if (!exhausted[i]) {
+						available++;
+					}
+				}
+			}
+			availability[modelId] = { total, allowed, available };
+		}
+		return availability;
+	}
+
 	private async getNextViableCredentialIndex(currentIndex: number, modelId?: string): Promise<number> {
 		const total = this.credentials.length;
 		let attempts = 0;
@@ -234,10 +273,7 @@ export class AuthManager {
 	): Promise<void> {
 		// Load all credentials once
 		if (this.credentials.length === 0) {
-			this.credentials = Array.from({ length: 100 }, (_, i) => {
-				const key = `GCP_SERVICE_ACCOUNT_${i}` as keyof Env;
-				return (this.env[key] ?? "") as string;
-			}).filter((s) => s.length > 0);
+			this.credentials = this.getConfiguredCredentials();
 
 			if (this.credentials.length === 0) {
 				throw new Error("No GCP_SERVICE_ACCOUNT_* variables found");
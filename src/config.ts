@@ -12,6 +12,11 @@ export const TOKEN_BUFFER_TIME = 5 * 60 * 1000; // 5 minutes in milliseconds
 export const KV_TOKEN_KEY = "oauth_token_cache";
 export const KV_CREDS_INDEX = "oauth_creds_index";
 
+// --- Thought Signatures ---
+export const KV_THOUGHT_SIGNATURE_PREFIX = "thought_signature_"; // e.g. thought_signature_call_abc → signature
+export const THOUGHT_SIGNATURE_TTL = 24 * 60 * 60; // 24 hours in seconds, long enough for a tool calling session
+
 // --- OpenAI API Constants ---
 export const OPENAI_CHAT_COMPLETION_OBJECT = "chat.completion.chunk";
+export const OPENAI_TEXT_COMPLETION_OBJECT = "text_completion";
 export const OPENAI_MODEL_OWNER = "google-gemini-cli";
@@ -2,6 +2,9 @@
  * Constants for the Gemini CLI OpenAI Worker
  */
 
+import { ThinkingFormat, ThinkingLevel, ThinkingMode } from "./types";
+import { NativeToolName, SearchContextSize } from "./types/native-tools";
+
 // Static reasoning messages for thinking models
 export const REASONING_MESSAGES = [
 	'🔍 **Analyzing the request: "{requestPreview}"**\n\n',
@@ -34,20 +37,35 @@ export const AUTO_SWITCH_MODEL_MAP = {
 // HTTP status codes for rate limiting
 export const RATE_LIMIT_STATUS_CODES = [429, 503] as const;
 
-// Reasoning effort mapping to thinking budgets
-export const REASONING_EFFORT_BUDGETS = {
-	none: 0,
-	low: 1024,
-	medium: {
-		flash: 12288,
-		default: 16384
-	},
-	high: {
-		flash: 24576,
-		default: 32768
-	}
+// Gemini accepts at most 8 candidates per request
+export const MAX_CANDIDATE_COUNT = 8;
+
+// Extra attempts when output does not match a strict json_schema response format
+export const STRICT_SCHEMA_MAX_RETRIES = 1;
+
+// Extra attempts when a tool call cannot be repaired to match its parameters schema
+export const TOOL_ARGUMENT_MAX_RETRIES = 1;
+
+// Instructions used to emulate legacy text completions with a chat model
+export const TEXT_COMPLETION_SYSTEM_PROMPT =
+	"Continue the text provided by the user exactly where it ends. Reply with the continuation only, without repeating the text, adding commentary or wrapping it in quotes or code fences.";
+export const TEXT_COMPLETION_SUFFIX_PROMPT =
+	"The continuation will be inserted directly before the following text, so it must connect seamlessly to it:\n{suffix}";
+
+// Reasoning effort mapping to thinking budgets: a fixed budget for low, a share of the model's maximum above it
+export const REASONING_EFFORT_LOW_BUDGET = 1024;
+export const REASONING_EFFORT_BUDGET_SHARES = {
+	medium: 0.5,
+	high: 1
 } as const;
 
+// Thinking levels from least to most thinking, reasoning effort uses the same names
+export const THINKING_LEVELS: ThinkingLevel[] = ["minimal", "low", "medium", "high"];
+
+// Per-request thinking visibility and output format
+export const THINKING_MODES: ThinkingMode[] = ["off", "summary", "raw"];
+export const THINKING_FORMATS: ThinkingFormat[] = ["reasoning_content", "think_tags", "anthropic_blocks"];
+
 // Gemini safety categories
 export const GEMINI_SAFETY_CATEGORIES = {
 	HARASSMENT: "HARM_CATEGORY_HARASSMENT",
@@ -56,11 +74,35 @@ export const GEMINI_SAFETY_CATEGORIES = {
 	DANGEROUS_CONTENT: "HARM_CATEGORY_DANGEROUS_CONTENT"
 } as const;
 
+// Native tool combinations each model accepts, a request may use any subset of one listed set
+export const NATIVE_TOOL_COMPATIBILITY: Record<string, NativeToolName[][]> = {
+	"gemini-2.5-pro": [["google_search", "url_context"], ["code_execution"]],
+	"gemini-2.5-flash": [["google_search", "url_context"], ["code_execution"]],
+	"gemini-2.5-flash-lite": [["google_search", "url_context"], ["code_execution"]],
+	"gemini-3-pro-preview": [["google_search", "url_context", "code_execution"]]
+};
+
+// Models missing from the compatibility table get each native tool on its own
+export const DEFAULT_NATIVE_TOOL_COMPATIBILITY: NativeToolName[][] = [
+	["google_search"],
+	["url_context"],
+	["code_execution"]
+];
+
+// Google Search has no context size setting, search_context_size only caps the sources reported as citations
+export const SEARCH_CONTEXT_CITED_SOURCE_LIMITS: Record<SearchContextSize, number | undefined> = {
+	low: 3,
+	medium: 6,
+	high: undefined
+};
+
 // Native tools defaults
 export const NATIVE_TOOLS_DEFAULTS = {
 	ENABLE_GEMINI_NATIVE_TOOLS: false,
 	ENABLE_GOOGLE_SEARCH: false,
 	ENABLE_URL_CONTEXT: false,
+	ENABLE_CODE_EXECUTION: false,
+	INLINE_CODE_EXECUTION: false,
 	GEMINI_TOOLS_PRIORITY: "native_first",
 	DEFAULT_TO_NATIVE_TOOLS: true,
 	ALLOW_REQUEST_TOOL_CONTROL: true,
@@ -7,7 +7,17 @@ import {
 	MessageContent,
 	Tool,
 	ToolChoice,
-	GeminiFunctionCall
+	GeminiFunctionCall,
+	GeneratedCandidate,
+	SystemPrompt,
+	FinishReasonData,
+	GeminiSafetyRating,
+	ResponseFormat,
+	ToolCall,
+	ToolArgumentValidationMode,
+	ThinkingLevel,
+	ThinkingDisplay,
+	WebSearchOptions
 } from "./types";
 import { AuthManager } from "./auth";
 import { CODE_ASSIST_ENDPOINT, CODE_ASSIST_API_VERSION } from "./config";
@@ -18,24 +28,62 @@ import { GenerationConfigValidator } from "./helpers/generation-config-validator
 import { AutoModelSwitchingHelper } from "./helpers/auto-model-switching";
 import { NativeToolsManager } from "./helpers/native-tools-manager";
 import { CitationsProcessor } from "./helpers/citations-processor";
-import { GeminiUrlContextMetadata, GroundingMetadata, NativeToolsRequestParams } from "./types/native-tools";
+import { CitationStream } from "./helpers/citation-stream";
+import { ThinkSegment, ThinkTagParser } from "./helpers/think-tag-parser";
+import { ThoughtSignatureStore } from "./helpers/thought-signature-store";
+import { ThinkingDisplayResolver } from "./helpers/thinking-display-resolver";
+import { ThoughtSummarizer } from "./helpers/thought-summarizer";
+import { NativeToolsResponseProcessor } from "./helpers/native-tools-response-processor";
+import { ToolResultMapper } from "./helpers/tool-result-mapper";
+import { ToolArgumentValidator } from "./helpers/tool-argument-validator";
+import {
+	GeminiCandidateUrlContextMetadata,
+	GeminiCodeExecutionResult,
+	GeminiExecutableCode,
+	GeminiUrlContextMetadata,
+	GroundingMetadata,
+	NativeToolResponse,
+	NativeToolsRequestParams,
+	ToolConfigurationMetadata
+} from "./types/native-tools";
 
 // Gemini API response types
 interface GeminiCandidate {
+	index?: number;
 	content?: {
 		parts?: Array<{ text?: string }>;
 	};
+	finishReason?: string;
+	safetyRatings?: GeminiSafetyRating[];
 	groundingMetadata?: GroundingMetadata;
+	urlContextMetadata?: GeminiCandidateUrlContextMetadata;
+}
+
+interface CandidateState {
+	hasStartedThinking: boolean;
+	hasClosedThinking: boolean;
+	functionCallCount: number;
+	reportedGrounding?: string; // Serialized grounding already sent, Gemini may repeat it in later chunks
+	citations?: CitationStream; // Set when inline citations are enabled
+	thinkTags: ThinkTagParser;
+	thoughtSummary?: ThoughtSummarizer; // Set when only the headings of thoughts are sent
 }
 
 interface GeminiUsageMetadata {
 	promptTokenCount?: number;
 	candidatesTokenCount?: number;
+	thoughtsTokenCount?: number;
+	cachedContentTokenCount?: number;
+	toolUsePromptTokenCount?: number;
 }
 
 interface GeminiResponse {
 	response?: {
 		candidates?: GeminiCandidate[];
+		promptFeedback?: {
+			blockReason?: string;
+			safetyRatings?: GeminiSafetyRating[];
+		};
 		usageMetadata?: GeminiUsageMetadata;
 	};
 }
@@ -43,15 +91,15 @@ interface GeminiResponse {
 export interface GeminiPart {
 	text?: string;
 	thought?: boolean; // For real thinking chunks from Gemini
+	thoughtSignature?: string; // Encrypted reasoning state of thinking models, must be returned as received
 	functionCall?: {
+		id?: string;
 		name: string;
 		args: object;
 	};
 	functionResponse?: {
 		name: string;
-		response: {
-			result: string;
-		};
+		response: Record<string, unknown>;
 	};
 	inlineData?: {
 		mimeType: string;
@@ -62,6 +110,8 @@ export interface GeminiPart {
 		fileUri: string;
 	};
 	url_context_metadata?: GeminiUrlContextMetadata;
+	executableCode?: GeminiExecutableCode;
+	codeExecutionResult?: GeminiCodeExecutionResult;
 }
 
 // Message content types - keeping only the local ones needed
@@ -93,11 +143,14 @@ export class GeminiApiClient {
 	private authManager: AuthManager;
 	private projectId: string | null = null;
 	private autoSwitchHelper: AutoModelSwitchingHelper;
+	private nativeToolsResponseProcessor = new NativeToolsResponseProcessor();
+	private thoughtSignatures: ThoughtSignatureStore;
 
 	constructor(env: Env, authManager: AuthManager) {
 		this.env = env;
 		this.authManager = authManager;
 		this.autoSwitchHelper = new AutoModelSwitchingHelper(env);
+		this.thoughtSignatures = new ThoughtSignatureStore(env);
 	}
 
 	/**
@@ -223,27 +276,54 @@ export class GeminiApiClient {
 	}
 
 	/**
-	 * Converts a message to Gemini format, handling both text and image content.
+	 * Converts a system prompt into a Gemini systemInstruction, keeping every part in order.
 	 */
-	private messageToGeminiFormat(msg: ChatMessage): GeminiFormattedMessage {
-		const role = msg.role === "assistant" ? "model" : "user";
+	private toSystemInstruction(systemPrompt: SystemPrompt): { parts: GeminiPart[] } | undefined {
+		if (systemPrompt.length === 0) {
+			return undefined;
+		}
+		const { parts } = this.messageToGeminiFormat({ role: "system", content: systemPrompt });
+		return { parts };
+	}
 
-		// Handle tool call results (tool role in OpenAI format)
-		if (msg.role === "tool") {
-			return {
-				role: "user",
-				parts: [
-					{
-						functionResponse: {
-							name: msg.tool_call_id || "unknown_function",
-							response: {
-								result: typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content)
-							}
-						}
-					}
-				]
-			};
+	/**
+	 * Converts the conversation to Gemini contents.
+	 * Tool results are answered by function name, resolved from the assistant tool calls,
+	 * and consecutive results are grouped into a single user turn.
+	 * @param signatures - Thought signatures of the assistant tool calls, keyed by tool call id
+	 */
+	private messagesToGeminiFormat(messages: ChatMessage[], signatures: Map<string, string>): GeminiFormattedMessage[] {
+		const callNames = ToolResultMapper.resolveFunctionNames(messages);
+		const contents: GeminiFormattedMessage[] = [];
+		let toolResultTurn: GeminiFormattedMessage | undefined;
+
+		for (const msg of messages) {
+			if (msg.role !== "tool") {
+				contents.push(this.messageToGeminiFormat(msg, signatures));
+				toolResultTurn = undefined;
+				continue;
+			}
+
+			const name = msg.tool_call_id && callNames.get(msg.tool_call_id);
+			if (!name) {
+				throw new Error(`Tool result '${msg.tool_call_id}' does not match any preceding assistant tool call`);
+			}
+			if (!toolResultTurn) {
+				toolResultTurn = { role: "user", parts: [] };
+				contents.push(toolResultTurn);
+			}
+			toolResultTurn.parts.push({
+				functionResponse: { name, response: ToolResultMapper.toFunctionResponse(msg.content) }
+			});
 		}
+		return contents;
+	}
+
+	/**
+	 * Converts a message to Gemini format, handling both text and image content.
+	 */
+	private messageToGeminiFormat(msg: ChatMessage, signatures?: Map<string, string>): GeminiFormattedMessage {
+		const role = msg.role === "assistant" ? "model" : "user";
 
 		// Handle assistant messages with tool calls
 		if (msg.role === "assistant" && msg.tool_calls && msg.tool_calls.length > 0) {
@@ -251,7 +331,7 @@ export class GeminiApiClient {
 
 			// Add text content if present
 			if (typeof msg.content === "string" && msg.content.trim()) {
-				parts.push({ text: msg.content });
+				parts.push({ text: msg.content, thoughtSignature: msg.thought_signature });
 			}
 
 			// Add function calls
@@ -261,7 +341,8 @@ export class GeminiApiClient {
 						functionCall: {
 							name: toolCall.function.name,
 							args: JSON.parse(toolCall.function.arguments)
-						}
+						},
+						thoughtSignature: signatures?.get(toolCall.id)
 					});
 				}
 			}
@@ -273,7 +354,7 @@ export class GeminiApiClient {
 			// Simple text message
 			return {
 				role,
-				parts: [{ text: msg.content }]
+				parts: [{ text: msg.content, thoughtSignature: msg.thought_signature }]
 			};
 		}
 
@@ -348,13 +429,17 @@ export class GeminiApiClient {
 	 */
 	async *streamContent(
 		modelId: string,
-		systemPrompt: string,
+		systemPrompt: SystemPrompt,
 		messages: ChatMessage[],
 		options?: {
 			includeReasoning?: boolean;
 			thinkingBudget?: number;
+			thinkingLevel?: ThinkingLevel;
+			thinkingDisplay?: ThinkingDisplay;
 			tools?: Tool[];
 			tool_choice?: ToolChoice;
+			parallel_tool_calls?: boolean;
+			tool_argument_validation?: ToolArgumentValidationMode;
 			max_tokens?: number;
 			temperature?: number;
 			top_p?: number;
@@ -362,29 +447,34 @@ export class GeminiApiClient {
 			presence_penalty?: number;
 			frequency_penalty?: number;
 			seed?: number;
-			response_format?: {
-				type: "text" | "json_object";
-			};
+			n?: number;
+			response_format?: ResponseFormat;
 		} & NativeToolsRequestParams
 	): AsyncGenerator<StreamChunk> {
 		await this.authManager.initializeAuth();
 		const projectId = await this.discoverProjectId();
 
-		const contents = messages.map((msg) => this.messageToGeminiFormat(msg));
+		const signatures = await this.thoughtSignatures.resolve(messages);
+		const contents = this.messagesToGeminiFormat(messages, signatures);
 
-		if (systemPrompt) {
-			contents.unshift({ role: "user", parts: [{ text: systemPrompt }] });
+		let systemInstruction = this.toSystemInstruction(systemPrompt);
+		// Gemini needs at least one turn, so a request with only system content sends it as the user turn
+		if (systemInstruction && contents.length === 0) {
+			contents.push({ role: "user", parts: systemInstruction.parts });
+			systemInstruction = undefined;
 		}
 
 		// Check if this is a thinking model and which thinking mode to use
 		const isThinkingModel = geminiCliModels[modelId]?.thinking || false;
-		const isRealThinkingEnabled = this.env.ENABLE_REAL_THINKING === "true";
-		const isFakeThinkingEnabled = this.env.ENABLE_FAKE_THINKING === "true";
-		const streamThinkingAsContent = this.env.STREAM_THINKING_AS_CONTENT === "true";
+		const thinkingDisplay = options?.thinkingDisplay ?? ThinkingDisplayResolver.fromEnv(this.env);
+		const isRealThinkingEnabled = thinkingDisplay.mode !== "off";
+		const isFakeThinkingEnabled = thinkingDisplay.fakeThinking;
+		const streamThinkingAsContent = thinkingDisplay.format === "think_tags";
 		const includeReasoning = options?.includeReasoning || false;
 
 		const req = {
 			thinking_budget: options?.thinkingBudget,
+			thinking_level: options?.thinkingLevel,
 			tools: options?.tools,
 			tool_choice: options?.tool_choice,
 			max_tokens: options?.max_tokens,
@@ -394,6 +484,7 @@ export class GeminiApiClient {
 			presence_penalty: options?.presence_penalty,
 			frequency_penalty: options?.frequency_penalty,
 			seed: options?.seed,
+			n: options?.n,
 			response_format: options?.response_format
 		};
 
@@ -415,6 +506,10 @@ export class GeminiApiClient {
 			toolConfig,
 			options
 		);
+		const toolConfiguration = nativeToolsManager.describeConfiguration(toolConfig);
+		if (toolConfiguration) {
+			yield { type: "tool_configuration", data: toolConfiguration };
+		}
 
 		// For thinking models with fake thinking (fallback when real thinking is not enabled or not requested)
 		let needsThinkingClose = false;
@@ -428,6 +523,7 @@ export class GeminiApiClient {
 			project: string;
 			request: {
 				contents: unknown;
+				systemInstruction?: unknown;
 				generationConfig: unknown;
 				tools: unknown;
 				toolConfig: unknown;
@@ -438,6 +534,7 @@ export class GeminiApiClient {
 			project: projectId,
 			request: {
 				contents: contents,
+				systemInstruction,
 				generationConfig,
 				tools: tools,
 				toolConfig: finalToolConfig
@@ -449,14 +546,25 @@ export class GeminiApiClient {
 			streamRequest.request.safetySettings = safetySettings;
 		}
 
-		yield* this.performStreamRequest(
-			streamRequest,
-			needsThinkingClose,
-			false,
-			includeReasoning && streamThinkingAsContent,
-			modelId,
-			nativeToolsManager
-		);
+		const createStream = () =>
+			this.performStreamRequest(
+				streamRequest,
+				needsThinkingClose,
+				includeReasoning && streamThinkingAsContent,
+				modelId,
+				nativeToolsManager,
+				options?.parallel_tool_calls !== false,
+				nativeToolsManager.shouldInlineCodeExecution(nativeToolsParams),
+				thinkingDisplay.mode === "summary",
+				toolConfig.citedSourceLimit
+			);
+
+		const validationMode = ToolArgumentValidator.resolveMode(this.env, options?.tool_argument_validation);
+		if (validationMode !== "off" && options?.tools?.length) {
+			yield* ToolArgumentValidator.streamValidated(createStream, options.tools, validationMode);
+		} else {
+			yield* createStream();
+		}
 	}
 
 	/**
@@ -555,264 +663,224 @@ export class GeminiApiClient {
 	}
 
 	/**
-	 * Performs the actual stream request with retry logic for 401 errors and auto model switching for rate limits.
+	 * Sends a request to a Code Assist method with retry logic for 401 errors,
+	 * credential rotation for 429 errors and auto model switching for rate limits.
+	 * Returns the successful response and the fallback model if a switch happened.
 	 */
-	private async *performStreamRequest(
-		streamRequest: unknown,
-		needsThinkingClose: boolean = false,
+	private async fetchWithRotation(
+		method: string,
+		requestBody: unknown,
 		isRetry: boolean = false,
-		realThinkingAsContent: boolean = false,
-		originalModel?: string,
-		nativeToolsManager?: NativeToolsManager
-	): AsyncGenerator<StreamChunk> {
-		const citationsProcessor = new CitationsProcessor(this.env);
-		const response = await fetch(`${CODE_ASSIST_ENDPOINT}/${CODE_ASSIST_API_VERSION}:streamGenerateContent?alt=sse`, {
+		originalModel?: string
+	): Promise<{ response: Response; fallbackModel?: string }> {
+		const response = await fetch(`${CODE_ASSIST_ENDPOINT}/${CODE_ASSIST_API_VERSION}:${method}`, {
 			method: "POST",
 			headers: {
 				"Content-Type": "application/json",
 				Authorization: `Bearer ${this.authManager.getAccessToken()}`
 			},
-			body: JSON.stringify(streamRequest)
+			body: JSON.stringify(requestBody)
 		});
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			console.error(`[GeminiAPI] Stream request failed: ${response.status}`, errorText);
-
-			// Handle 401 (same as before)
-			if (response.status === 401 && !isRetry) {
-				console.log("Got 401, clearing token and retrying...");
-				await this.authManager.clearTokenCache();
-				await this.authManager.initializeAuth();
-				yield* this.performStreamRequest(
-					streamRequest,
-					needsThinkingClose,
-					true,
-					realThinkingAsContent,
-					originalModel,
-					nativeToolsManager
-				); // retry
-				return;
-			}
-
-			// NEW: Smart handling of 429 RESOURCE_EXHAUSTED
-			if (response.status === 429) {
-				let resetIso: string | undefined;
-
-				try {
-					const errJson = JSON.parse(errorText);
-					const details = errJson.error?.details?.[0]?.metadata;
-					if (details?.quotaResetTimeStamp) {
-						resetIso = details.quotaResetTimeStamp;
-						console.log(`429 → quota resets at ${resetIso}`);
-					}
-				} catch {
+		if (response.ok) {
+			return { response };
+		}
 
-				}
+		const errorText = await response.text();
+		console.error(`[GeminiAPI] ${method} request failed: ${response.status}`, errorText);
 
-				// If resetIso is provided, wait until quota reset before retrying
-				if (resetIso) {
-					const resetTime = new Date(resetIso).getTime();
-					const waitTime = resetTime - Date.now();
-					
-					if (waitTime > 0 && waitTime < 60000) { // Only wait if less than 60 seconds
-						console.log(`Waiting ${Math.ceil(waitTime / 1000)}s for quota reset...`);
-						await new Promise(resolve => setTimeout(resolve, waitTime));
-					}
+		// Handle 401 (same as before)
+		if (response.status === 401 && !isRetry) {
+			console.log("Got 401, clearing token and retrying...");
+			await this.authManager.clearTokenCache();
+			await this.authManager.initializeAuth();
+			return this.fetchWithRotation(method, requestBody, true, originalModel); // retry
+		}
+
+		// NEW: Smart handling of 429 RESOURCE_EXHAUSTED
+		if (response.status === 429) {
+			let resetIso: string | undefined;
+
+			try {
+				const errJson = JSON.parse(errorText);
+				const details = errJson.error?.details?.[0]?.metadata;
+				if (details?.quotaResetTimeStamp) {
+					resetIso = details.quotaResetTimeStamp;
+					console.log(`429 → quota resets at ${resetIso}`);
 				}
+			} catch {
 
-				// Rotate to next healthy project
-				const modelId = (streamRequest as { model: string }).model;
-				await this.authManager.rotateCredentials("exhausted", resetIso, modelId);
+			}
 
-				// Initialize auth for the new credential
-				await this.authManager.initializeAuth();
+			// If resetIso is provided, wait until quota reset before retrying
+			if (resetIso) {
+				const resetTime = new Date(resetIso).getTime();
+				const waitTime = resetTime - Date.now();
 
-				// Retry immediately with new credential
-				console.log("Retrying request with next available credential...");
-				yield* this.performStreamRequest(
-					streamRequest,
-					needsThinkingClose,
-					true, // mark as retry
-					realThinkingAsContent,
-					originalModel,
-					nativeToolsManager
-				);
-				return;
+				if (waitTime > 0 && waitTime < 60000) { // Only wait if less than 60 seconds
+					console.log(`Waiting ${Math.ceil(waitTime / 1000)}s for quota reset...`);
+					await new Promise(resolve => setTimeout(resolve, waitTime));
+				}
 			}
 
-			// Existing auto model switching (fallback to flash, etc.)
-			if (this.autoSwitchHelper.isRateLimitStatus(response.status) && !isRetry && originalModel) {
-				const fallbackModel = this.autoSwitchHelper.getFallbackModel(originalModel);
-				if (fallbackModel && this.autoSwitchHelper.isEnabled()) {
-					console.log(
-						`Got ${response.status} error for model ${originalModel}, switching to fallback model: ${fallbackModel}`
-					);
+			// Rotate to next healthy project
+			const modelId = (requestBody as { model?: string }).model;
+			await this.authManager.rotateCredentials("exhausted", resetIso, modelId);
 
-					// Create new request with fallback model
-					const fallbackRequest = {
-						...(streamRequest as Record<string, unknown>),
-						model: fallbackModel
-					};
+			// Initialize auth for the new credential
+			await this.authManager.initializeAuth();
 
-					// Add a notification chunk about the model switch
-					yield {
-						type: "text",
-						data: this.autoSwitchHelper.createSwitchNotification(originalModel, fallbackModel)
-					};
+			// Retry immediately with new credential
+			console.log("Retrying request with next available credential...");
+			return this.fetchWithRotation(method, requestBody, true, originalModel); // mark as retry
+		}
 
-					yield* this.performStreamRequest(
-						fallbackRequest,
-						needsThinkingClose,
-						true,
-						realThinkingAsContent,
-						originalModel,
-						nativeToolsManager
-					);
-					return;
-				}
+		// Existing auto model switching (fallback to flash, etc.)
+		if (this.autoSwitchHelper.isRateLimitStatus(response.status) && !isRetry && originalModel) {
+			const fallbackModel = this.autoSwitchHelper.getFallbackModel(originalModel);
+			if (fallbackModel && this.autoSwitchHelper.isEnabled()) {
+				console.log(
+					`Got ${response.status} error for model ${originalModel}, switching to fallback model: ${fallbackModel}`
+				);
+
+				// Create new request with fallback model
+				const fallbackRequest = {
+					...(requestBody as Record<string, unknown>),
+					model: fallbackModel
+				};
+
+				const result = await this.fetchWithRotation(method, fallbackRequest, true, originalModel);
+				return { response: result.response, fallbackModel };
 			}
+		}
+
+		throw new Error(`Stream request failed: ${response.status}\n${errorText}`);
+	}
+
+	/**
+	 * Performs the actual stream request and converts Gemini parts into stream chunks.
+	 */
+	private async *performStreamRequest(
+		streamRequest: unknown,
+		needsThinkingClose: boolean = false,
+		realThinkingAsContent: boolean = false,
+		originalModel?: string,
+		nativeToolsManager?: NativeToolsManager,
+		parallelToolCalls: boolean = true,
+		inlineCodeExecution: boolean = false,
+		summarizeThinking: boolean = false,
+		citedSourceLimit?: number
+	): AsyncGenerator<StreamChunk> {
+		const citationsProcessor = new CitationsProcessor(this.env);
+		const { response, fallbackModel } = await this.fetchWithRotation(
+			"streamGenerateContent?alt=sse",
+			streamRequest,
+			false,
+			originalModel
+		);
 
-			throw new Error(`Stream request failed: ${response.status}\n${errorText}`);
+		if (fallbackModel && originalModel) {
+			// Add a notification chunk about the model switch
+			yield {
+				type: "text",
+				data: this.autoSwitchHelper.createSwitchNotification(originalModel, fallbackModel)
+			};
 		}
 
 		if (!response.body) {
 			throw new Error("Response has no body");
 		}
 
-		let hasClosedThinking = false;
-		let hasStartedThinking = false;
+		// Thinking wrappers and function calls are tracked per candidate so every choice is handled independently
+		const candidateStates = new Map<number, CandidateState>();
 
 		for await (const jsonData of this.parseSSEStream(response.body)) {
-			const candidate = jsonData.response?.candidates?.[0];
-
-			if (candidate?.content?.parts) {
-				for (const part of candidate.content.parts as GeminiPart[]) {
-					// Handle real thinking content from Gemini
-					if (part.thought === true && part.text) {
-						const thinkingText = part.text;
-
-						if (realThinkingAsContent) {
-							// Stream as content with <thinking> tags (DeepSeek R1 style)
-							if (!hasStartedThinking) {
-								yield {
-									type: "thinking_content",
-									data: "<thinking>\n"
-								};
-								hasStartedThinking = true;
-							}
-
-							yield {
-								type: "thinking_content",
-								data: thinkingText
-							};
-						} else {
-							// Stream as separate reasoning field
-							yield {
-								type: "real_thinking",
-								data: thinkingText
-							};
-						}
-					}
-					// Check if text content contains <think> tags (based on your original example)
-					else if (part.text && part.text.includes("<think>")) {
-						if (realThinkingAsContent) {
-							// Extract thinking content and convert to our format
-							const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
-							if (thinkingMatch) {
-								if (!hasStartedThinking) {
-									yield {
-										type: "thinking_content",
-										data: "<thinking>\n"
-									};
-									hasStartedThinking = true;
-								}
-
-								yield {
-									type: "thinking_content",
-									data: thinkingMatch[1]
-								};
-							}
-
-							// Extract any non-thinking coRecentent
-							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
-							if (nonThinkingContent) {
-								if (hasStartedThinking && !hasClosedThinking) {
-									yield {
-										type: "thinking_content",
-										data: "\n</thinking>\n\n"
-									};
-									hasClosedThinking = true;
-								}
-								yield { type: "text", data: nonThinkingContent };
-							}
-						} else {
-							// Stream thinking as separate reasoning field
-							const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
-							if (thinkingMatch) {
-								yield {
-									type: "real_thinking",
-									data: thinkingMatch[1]
-								};
-							}
+			const candidates = jsonData.response?.candidates || [];
+
+			for (const [position, candidate] of candidates.entries()) {
+				// Gemini omits the index of the first candidate
+				const index = candidate.index ?? position;
+				if (nativeToolsManager && candidate.groundingMetadata) {
+					candidate.groundingMetadata = nativeToolsManager.limitCitedSources(
+						candidate.groundingMetadata,
+						citedSourceLimit
+					);
+				}
+				let state = candidateStates.get(index);
+				if (!state) {
+					state = {
+						hasStartedThinking: false,
+						hasClosedThinking: false,
+						functionCallCount: 0,
+						thinkTags: new ThinkTagParser(),
+						thoughtSummary: summarizeThinking ? new ThoughtSummarizer() : undefined,
+						citations: nativeToolsManager ? citationsProcessor.createStream() : undefined
+					};
+					candidateStates.set(index, state);
+				}
 
-							// Stream non-thinking content as regular text
-							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
-							if (nonThinkingContent) {
-								yield { type: "text", data: nonThinkingContent };
-							}
-						}
+				const chunks = this.convertCandidateParts(
+					candidate,
+					state,
+					// Fake thinking is only streamed for the first choice
+					needsThinkingClose && index === 0,
+					realThinkingAsContent,
+					parallelToolCalls,
+					inlineCodeExecution
+				);
+				for (const chunk of chunks) {
+					const functionCall = chunk.type === "tool_code" ? (chunk.data as GeminiFunctionCall) : undefined;
+					if (functionCall?.id && functionCall.thoughtSignature) {
+						await this.thoughtSignatures.save(functionCall.id, functionCall.thoughtSignature);
 					}
-					// Handle regular content - only if it's not a thinking part and doesn't contain <think> tags
-					else if (part.text && !part.thought && !part.text.includes("<think>")) {
-						// Close thinking tag before first real content if needed
-						if ((needsThinkingClose || (realThinkingAsContent && hasStartedThinking)) && !hasClosedThinking) {
-							yield {
-								type: "thinking_content",
-								data: "\n</thinking>\n\n"
-							};
-							hasClosedThinking = true;
-						}
+					yield { ...chunk, index };
+				}
 
-						let processedText = part.text;
-						if (nativeToolsManager) {
-							processedText = citationsProcessor.processChunk(
-								part.text,
-								jsonData.response?.candidates?.[0]?.groundingMetadata
-							);
+				if (nativeToolsManager && (candidate.groundingMetadata || candidate.urlContextMetadata)) {
+					const grounding = JSON.stringify([candidate.groundingMetadata, candidate.urlContextMetadata]);
+					if (grounding !== state.reportedGrounding) {
+						state.reportedGrounding = grounding;
+						const groundingChunks = nativeToolsManager.createGroundingChunks(
+							candidate.groundingMetadata,
+							candidate.urlContextMetadata
+						);
+						for (const chunk of groundingChunks) {
+							yield { ...chunk, index };
 						}
-						yield { type: "text", data: processedText };
 					}
-					// Handle function calls from Gemini
-					else if (part.functionCall) {
-						// Close thinking tag before function call if needed
-						if ((needsThinkingClose || (realThinkingAsContent && hasStartedThinking)) && !hasClosedThinking) {
-							yield {
-								type: "thinking_content",
-								data: "\n</thinking>\n\n"
-							};
-							hasClosedThinking = true;
-						}
-
-						const functionCallData: GeminiFunctionCall = {
-							name: part.functionCall.name,
-							args: part.functionCall.args
-						};
+				}
 
-						yield {
-							type: "tool_code",
-							data: functionCallData
-						};
+				if (candidate.finishReason) {
+					for (const chunk of this.endCandidateText(state, needsThinkingClose && index === 0, realThinkingAsContent)) {
+						yield { ...chunk, index };
 					}
-					// Note: Skipping unknown part structures
+					const finishData: FinishReasonData = {
+						reason: candidate.finishReason,
+						safetyRatings: candidate.safetyRatings
+					};
+					yield { type: "finish", data: finishData, index };
 				}
 			}
 
+			// A blocked prompt produces no candidates, only prompt feedback
+			const blockReason = jsonData.response?.promptFeedback?.blockReason;
+			if (blockReason) {
+				const finishData: FinishReasonData = {
+					reason: blockReason,
+					safetyRatings: jsonData.response?.promptFeedback?.safetyRatings,
+					promptBlocked: true
+				};
+				yield { type: "finish", data: finishData, index: 0 };
+			}
+
 			if (jsonData.response?.usageMetadata) {
 				const usage = jsonData.response.usageMetadata;
 				const usageData: UsageData = {
 					inputTokens: usage.promptTokenCount || 0,
-					outputTokens: usage.candidatesTokenCount || 0
+					outputTokens: usage.candidatesTokenCount || 0,
+					thoughtsTokens: usage.thoughtsTokenCount,
+					cachedTokens: usage.cachedContentTokenCount,
+					toolUsePromptTokens: usage.toolUsePromptTokenCount
 				};
 				yield {
 					type: "usage",
@@ -820,6 +888,190 @@ export class GeminiApiClient {
 				};
 			}
 		}
+
+		// Candidates cut off without a finish reason still send their held back text
+		for (const [index, state] of candidateStates) {
+			for (const chunk of this.endCandidateText(state, needsThinkingClose && index === 0, realThinkingAsContent)) {
+				yield { ...chunk, index };
+			}
+		}
+	}
+
+	/**
+	 * Converts the parts of a single candidate into stream chunks.
+	 */
+	private *convertCandidateParts(
+		candidate: GeminiCandidate,
+		state: CandidateState,
+		needsThinkingClose: boolean,
+		realThinkingAsContent: boolean,
+		parallelToolCalls: boolean,
+		inlineCodeExecution: boolean
+	): Generator<StreamChunk> {
+		// Grounding describes the response so far, so it is registered before this chunk's text
+		if (state.citations && candidate.groundingMetadata) {
+			state.citations.update(candidate.groundingMetadata);
+		}
+
+		for (const part of (candidate.content?.parts || []) as GeminiPart[]) {
+			// Signatures of function calls travel with the call, any other one belongs to the message
+			if (part.thoughtSignature && !part.functionCall) {
+				yield { type: "thought_signature", data: part.thoughtSignature };
+			}
+
+			// Handle real thinking content from Gemini
+			if (part.thought === true && part.text) {
+				yield* this.convertThinkSegments([{ thinking: true, text: part.text }], state, false, realThinkingAsContent);
+			}
+			// Handle regular content, which may embed <think> blocks split across parts
+			else if (part.text && !part.thought) {
+				yield* this.convertThinkSegments(
+					state.thinkTags.push(part.text),
+					state,
+					needsThinkingClose,
+					realThinkingAsContent
+				);
+			}
+			// Handle function calls from Gemini
+			else if (part.functionCall) {
+				// Gemini cannot be told to call a single function, so extra parallel calls are dropped
+				if (!parallelToolCalls && state.functionCallCount > 0) {
+					console.log(`Dropping parallel function call '${part.functionCall.name}': parallel_tool_calls is disabled`);
+					continue;
+				}
+				state.functionCallCount++;
+
+				// Close thinking tag before function call if needed
+				if ((needsThinkingClose || (realThinkingAsContent && state.hasStartedThinking)) && !state.hasClosedThinking) {
+					yield {
+						type: "thinking_content",
+						data: "\n</thinking>\n\n"
+					};
+					state.hasClosedThinking = true;
+				}
+
+				const functionCallData: GeminiFunctionCall = {
+					id: part.functionCall.id || `call_${crypto.randomUUID()}`,
+					name: part.functionCall.name,
+					args: part.functionCall.args,
+					thoughtSignature: part.thoughtSignature
+				};
+
+				yield {
+					type: "tool_code",
+					data: functionCallData
+				};
+			}
+			// Handle native tool output such as generated code and its execution result
+			else {
+				const nativeToolResponse = this.nativeToolsResponseProcessor.processNativeToolResponse(part);
+				if (!nativeToolResponse) {
+					// Note: Skipping unknown part structures
+					continue;
+				}
+
+				if ((needsThinkingClose || (realThinkingAsContent && state.hasStartedThinking)) && !state.hasClosedThinking) {
+					yield {
+						type: "thinking_content",
+						data: "\n</thinking>\n\n"
+					};
+					state.hasClosedThinking = true;
+				}
+				yield { type: "native_tool", data: nativeToolResponse };
+
+				const markdown = inlineCodeExecution
+					? this.nativeToolsResponseProcessor.formatCodeExecutionAsMarkdown(nativeToolResponse)
+					: null;
+				if (markdown) {
+					const heldText = state.citations?.flush();
+					if (heldText) {
+						yield { type: "text", data: heldText };
+					}
+					yield { type: "text", data: markdown };
+				}
+			}
+		}
+	}
+
+	/**
+	 * Converts thinking and answer segments of a candidate into stream chunks.
+	 * With realThinkingAsContent thinking is wrapped in <thinking> tags, reopened for every later block,
+	 * otherwise it is sent as reasoning. In summary mode only the headings of the thoughts are kept.
+	 */
+	private *convertThinkSegments(
+		segments: ThinkSegment[],
+		state: CandidateState,
+		needsThinkingClose: boolean,
+		realThinkingAsContent: boolean
+	): Generator<StreamChunk> {
+		for (const segment of segments) {
+			if (segment.thinking) {
+				const thought = state.thoughtSummary ? state.thoughtSummary.push(segment.text) : segment.text;
+				yield* this.convertThought(thought, state, realThinkingAsContent);
+				continue;
+			}
+
+			// A summarized thought may end with a heading that is still held back
+			if (state.thoughtSummary) {
+				yield* this.convertThought(state.thoughtSummary.end(), state, realThinkingAsContent);
+			}
+
+			// Close thinking tag before real content if needed
+			if ((needsThinkingClose || (realThinkingAsContent && state.hasStartedThinking)) && !state.hasClosedThinking) {
+				yield { type: "thinking_content", data: "\n</thinking>\n\n" };
+				state.hasClosedThinking = true;
+			}
+			const text = state.citations ? state.citations.write(segment.text) : segment.text;
+			if (text) {
+				yield { type: "text", data: text };
+			}
+		}
+	}
+
+	/**
+	 * Converts thought text into reasoning, or into content wrapped in <thinking> tags.
+	 */
+	private *convertThought(
+		thought: string,
+		state: CandidateState,
+		realThinkingAsContent: boolean
+	): Generator<StreamChunk> {
+		if (!thought) {
+			return;
+		}
+		if (!realThinkingAsContent) {
+			yield { type: "real_thinking", data: thought };
+			return;
+		}
+		if (!state.hasStartedThinking || state.hasClosedThinking) {
+			yield { type: "thinking_content", data: "<thinking>\n" };
+			state.hasStartedThinking = true;
+			state.hasClosedThinking = false;
+		}
+		yield { type: "thinking_content", data: thought };
+	}
+
+	/**
+	 * Ends the text of a candidate: releases held back think tag fragments, thought headings and
+	 * citations, and closes a <thinking> wrapper left open.
+	 */
+	private *endCandidateText(
+		state: CandidateState,
+		needsThinkingClose: boolean,
+		realThinkingAsContent: boolean
+	): Generator<StreamChunk> {
+		yield* this.convertThinkSegments(state.thinkTags.end(), state, needsThinkingClose, realThinkingAsContent);
+		if (state.thoughtSummary) {
+			yield* this.convertThought(state.thoughtSummary.end(), state, realThinkingAsContent);
+		}
+		if ((needsThinkingClose || (realThinkingAsContent && state.hasStartedThinking)) && !state.hasClosedThinking) {
+			yield { type: "thinking_content", data: "\n</thinking>\n\n" };
+			state.hasClosedThinking = true;
+		}
+		const citedText = state.citations?.end();
+		if (citedText) {
+			yield { type: "text", data: citedText };
+		}
 	}
 
 	/**
@@ -827,13 +1079,17 @@ export class GeminiApiClient {
 	 */
 	async getCompletion(
 		modelId: string,
-		systemPrompt: string,
+		systemPrompt: SystemPrompt,
 		messages: ChatMessage[],
 		options?: {
 			includeReasoning?: boolean;
 			thinkingBudget?: number;
+			thinkingLevel?: ThinkingLevel;
+			thinkingDisplay?: ThinkingDisplay;
 			tools?: Tool[];
 			tool_choice?: ToolChoice;
+			parallel_tool_calls?: boolean;
+			tool_argument_validation?: ToolArgumentValidationMode;
 			max_tokens?: number;
 			temperature?: number;
 			top_p?: number;
@@ -841,44 +1097,106 @@ export class GeminiApiClient {
 			presence_penalty?: number;
 			frequency_penalty?: number;
 			seed?: number;
-			response_format?: {
-				type: "text" | "json_object";
-			};
+			n?: number;
+			response_format?: ResponseFormat;
 		} & NativeToolsRequestParams
 	): Promise<{
 		content: string;
 		usage?: UsageData;
-		tool_calls?: Array<{ id: string; type: "function"; function: { name: string; arguments: string } }>;
+		tool_calls?: ToolCall[];
+		candidates: GeneratedCandidate[];
+		tool_configuration?: ToolConfigurationMetadata;
 	}> {
 		try {
-			let content = "";
 			let usage: UsageData | undefined;
-			const tool_calls: Array<{ id: string; type: "function"; function: { name: string; arguments: string } }> = [];
+			let toolConfiguration: ToolConfigurationMetadata | undefined;
+			const candidates = new Map<
+				number,
+				{
+					content: string;
+					tool_calls: ToolCall[];
+					native_tool_calls: NativeToolResponse[];
+					thought_signature?: string;
+					reasoning: string;
+					grounding?: GroundingMetadata;
+					citations?: GroundingMetadata;
+					finish?: FinishReasonData;
+				}
+			>();
 
-			// Collect all chunks from the stream
+			// Collect all chunks from the stream, grouped by candidate
 			for await (const chunk of this.streamContent(modelId, systemPrompt, messages, options)) {
-				if (chunk.type === "text" && typeof chunk.data === "string") {
-					content += chunk.data;
-				} else if (chunk.type === "usage" && typeof chunk.data === "object") {
+				if (chunk.type === "usage" && typeof chunk.data === "object") {
 					usage = chunk.data as UsageData;
+					continue;
+				}
+				if (chunk.type === "tool_configuration" && typeof chunk.data === "object") {
+					toolConfiguration = chunk.data as ToolConfigurationMetadata;
+					continue;
+				}
+
+				const index = chunk.index ?? 0;
+				let candidate = candidates.get(index);
+				if (!candidate) {
+					candidate = { content: "", reasoning: "", tool_calls: [], native_tool_calls: [] };
+					candidates.set(index, candidate);
+				}
+
+				if (chunk.type === "text" && typeof chunk.data === "string") {
+					candidate.content += chunk.data;
+				} else if (chunk.type === "real_thinking" && typeof chunk.data === "string") {
+					candidate.reasoning += chunk.data;
+				} else if (chunk.type === "finish" && typeof chunk.data === "object") {
+					candidate.finish = chunk.data as FinishReasonData;
+				} else if (chunk.type === "native_tool" && typeof chunk.data === "object") {
+					candidate.native_tool_calls.push(chunk.data as NativeToolResponse);
+				} else if (chunk.type === "grounding_metadata" && typeof chunk.data === "object") {
+					candidate.grounding = chunk.data as GroundingMetadata;
+				} else if (chunk.type === "thought_signature" && typeof chunk.data === "string") {
+					candidate.thought_signature = chunk.data;
+				} else if (chunk.type === "citations" && typeof chunk.data === "object") {
+					candidate.citations = chunk.data as GroundingMetadata;
 				} else if (chunk.type === "tool_code" && typeof chunk.data === "object") {
 					const toolData = chunk.data as GeminiFunctionCall;
-					tool_calls.push({
-						id: `call_${crypto.randomUUID()}`,
+					candidate.tool_calls.push({
+						id: toolData.id || `call_${crypto.randomUUID()}`,
 						type: "function",
 						function: {
 							name: toolData.name,
 							arguments: JSON.stringify(toolData.args)
-						}
+						},
+						validation_errors: toolData.validationErrors,
+						thought_signature: toolData.thoughtSignature
 					});
 				}
-				// Skip reasoning chunks for non-streaming responses
+				// Skip fake reasoning chunks for non-streaming responses
+			}
+
+			const results: GeneratedCandidate[] = [...candidates.entries()]
+				.sort(([a], [b]) => a - b)
+				.map(([index, candidate]) => ({
+					index,
+					content: candidate.content,
+					tool_calls: candidate.tool_calls.length > 0 ? candidate.tool_calls : undefined,
+					native_tool_calls: candidate.native_tool_calls.length > 0 ? candidate.native_tool_calls : undefined,
+					grounding: candidate.grounding,
+					thought_signature: candidate.thought_signature,
+					reasoning: candidate.reasoning || undefined,
+					annotations: candidate.citations
+						? CitationsProcessor.createAnnotations(candidate.content, candidate.citations)
+						: undefined,
+					finish: candidate.finish
+				}));
+			if (results.length === 0) {
+				results.push({ index: 0, content: "" });
 			}
 
 			return {
-				content,
+				content: results[0].content,
 				usage,
-				tool_calls: tool_calls.length > 0 ? tool_calls : undefined
+				tool_calls: results[0].tool_calls,
+				candidates: results,
+				tool_configuration: toolConfiguration
 			};
 		} catch (error: unknown) {
 			// Handle rate limiting for non-streaming requests
@@ -891,7 +1209,7 @@ export class GeminiApiClient {
 					this.streamContent.bind(this)
 				);
 				if (fallbackResult) {
-					return fallbackResult;
+					return { ...fallbackResult, candidates: [{ index: 0, content: fallbackResult.content }] };
 				}
 			}
 
@@ -900,16 +1218,73 @@ export class GeminiApiClient {
 		}
 	}
 
+	/**
+	 * Builds the Code Assist envelope for a request in the public Gemini API format.
+	 */
+	private async createNativeRequest(
+		modelId: string,
+		request: Record<string, unknown>
+	): Promise<{ model: string; project: string; request: Record<string, unknown> }> {
+		await this.authManager.initializeAuth();
+		const projectId = await this.discoverProjectId();
+		return { model: modelId, project: projectId, request };
+	}
+
+	/**
+	 * Streams raw Gemini responses for a request in the public Gemini API format.
+	 * The request is only wrapped in the Code Assist envelope, the responses are not converted.
+	 */
+	async *streamNativeContent(modelId: string, request: Record<string, unknown>): AsyncGenerator<unknown> {
+		const nativeRequest = await this.createNativeRequest(modelId, request);
+		const { response } = await this.fetchWithRotation("streamGenerateContent?alt=sse", nativeRequest, false, modelId);
+
+		if (!response.body) {
+			throw new Error("Response has no body");
+		}
+
+		for await (const jsonData of this.parseSSEStream(response.body)) {
+			if (jsonData.response) {
+				yield jsonData.response;
+			}
+		}
+	}
+
+	/**
+	 * Gets a complete raw Gemini response for a request in the public Gemini API format.
+	 */
+	async generateNativeContent(modelId: string, request: Record<string, unknown>): Promise<unknown> {
+		const nativeRequest = await this.createNativeRequest(modelId, request);
+		const { response } = await this.fetchWithRotation("generateContent", nativeRequest, false, modelId);
+		const data = (await response.json()) as GeminiResponse;
+		return data.response ?? {};
+	}
+
+	/**
+	 * Counts the tokens of the given contents with the Code Assist countTokens method.
+	 */
+	async countNativeTokens(modelId: string, contents: unknown): Promise<{ totalTokens: number }> {
+		await this.authManager.initializeAuth();
+		const { response } = await this.fetchWithRotation("countTokens", {
+			request: { model: `models/${modelId}`, contents }
+		});
+		const data = (await response.json()) as { totalTokens?: number };
+		return { totalTokens: data.totalTokens ?? 0 };
+	}
+
 	private extractNativeToolsParams(options?: Record<string, unknown>): NativeToolsRequestParams {
 		return {
 			enableSearch: this.extractBooleanParam(options, "enable_search"),
 			enableUrlContext: this.extractBooleanParam(options, "enable_url_context"),
+			enableCodeExecution: this.extractBooleanParam(options, "enable_code_execution"),
+			inlineCodeExecution: this.extractBooleanParam(options, "inline_code_execution"),
 			enableNativeTools: this.extractBooleanParam(options, "enable_native_tools"),
 			nativeToolsPriority: this.extractStringParam(
 				options,
 				"native_tools_priority",
 				(v): v is "native" | "custom" | "mixed" => ["native", "custom", "mixed"].includes(v)
-			)
+			),
+			webSearch: options?.web_search_options !== undefined,
+			searchContextSize: (options?.web_search_options as WebSearchOptions | undefined)?.search_context_size
 		};
 	}
 
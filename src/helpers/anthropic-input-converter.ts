@@ -0,0 +1,155 @@
+import { ChatMessage, MessageContent, Tool, ToolCall, ToolChoice } from "../types";
+import {
+	AnthropicContentBlock,
+	AnthropicCustomTool,
+	AnthropicImageBlock,
+	AnthropicMessagesRequest,
+	AnthropicTextBlock,
+	AnthropicTool,
+	AnthropicToolChoice
+} from "../types/anthropic";
+
+/**
+ * Helper class to translate Anthropic Messages API requests into the
+ * chat message format consumed by GeminiApiClient.
+ */
+export class AnthropicInputConverter {
+	/**
+	 * Converts the Anthropic `system` and `messages` fields into a system prompt and chat messages.
+	 * Tool results inside a user turn are emitted as separate tool messages ahead of the remaining content.
+	 * @param request - The Anthropic Messages request
+	 * @returns The system prompt and the conversation as chat messages
+	 */
+	static toChatMessages(request: AnthropicMessagesRequest): { systemPrompt: string; messages: ChatMessage[] } {
+		const systemPrompt =
+			typeof request.system === "string"
+				? request.system
+				: (request.system || []).map((block) => block.text).join("\n\n");
+		const messages: ChatMessage[] = [];
+
+		for (const message of request.messages || []) {
+			if (typeof message.content === "string") {
+				messages.push({ role: message.role, content: message.content });
+			} else if (message.role === "assistant") {
+				messages.push(this.convertAssistantBlocks(message.content));
+			} else {
+				messages.push(...this.convertUserBlocks(message.content));
+			}
+		}
+
+		return { systemPrompt, messages };
+	}
+
+	/**
+	 * Converts Anthropic custom tools to chat tools and detects the web search server tool.
+	 * @param tools - The Anthropic tools
+	 * @returns Chat-style function tools and whether web search was requested
+	 */
+	static toChatTools(tools: AnthropicTool[] = []): { tools: Tool[] | undefined; enableSearch: boolean | undefined } {
+		const functionTools: Tool[] = [];
+		let enableSearch: boolean | undefined;
+
+		for (const tool of tools) {
+			if (this.isCustomTool(tool)) {
+				functionTools.push({
+					type: "function",
+					function: {
+						name: tool.name,
+						description: tool.description,
+						parameters: tool.input_schema
+					}
+				});
+			} else if (tool.type.startsWith("web_search")) {
+				enableSearch = true;
+			}
+		}
+
+		return { tools: functionTools.length > 0 ? functionTools : undefined, enableSearch };
+	}
+
+	/**
+	 * Converts an Anthropic tool choice into the chat tool choice format.
+	 * @param toolChoice - The Anthropic tool choice
+	 * @returns The equivalent chat tool choice
+	 */
+	static toChatToolChoice(toolChoice?: AnthropicToolChoice): ToolChoice | undefined {
+		switch (toolChoice?.type) {
+			case "tool":
+				return toolChoice.name ? { type: "function", function: { name: toolChoice.name } } : undefined;
+			case "none":
+				return "none";
+			case "auto":
+				return "auto";
+			case "any":
+				return "required";
+			default:
+				return undefined;
+		}
+	}
+
+	private static isCustomTool(tool: AnthropicTool): tool is AnthropicCustomTool {
+		return "input_schema" in tool && (tool.type === undefined || tool.type === "custom");
+	}
+
+	private static convertAssistantBlocks(blocks: AnthropicContentBlock[]): ChatMessage {
+		const text: string[] = [];
+		const toolCalls: ToolCall[] = [];
+
+		for (const block of blocks) {
+			if (block.type === "text") {
+				text.push(block.text);
+			} else if (block.type === "tool_use") {
+				toolCalls.push({
+					id: block.id,
+					type: "function",
+					function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+				});
+			}
+			// Thinking blocks cannot be replayed to Gemini
+		}
+
+		return {
+			role: "assistant",
+			content: text.join(""),
+			tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+		};
+	}
+
+	private static convertUserBlocks(blocks: AnthropicContentBlock[]): ChatMessage[] {
+		const toolMessages: ChatMessage[] = [];
+		const content: MessageContent[] = [];
+
+		for (const block of blocks) {
+			if (block.type === "tool_result") {
+				const result = typeof block.content === "string" ? block.content : this.flattenText(block.content || []);
+				toolMessages.push({
+					role: "tool",
+					tool_call_id: block.tool_use_id,
+					content: block.is_error ? `Error: ${result}` : result
+				});
+			} else if (block.type === "text") {
+				content.push({ type: "text", text: block.text });
+			} else if (block.type === "image") {
+				content.push(this.convertImage(block));
+			}
+		}
+
+		if (content.length > 0) {
+			toolMessages.push({ role: "user", content });
+		}
+		return toolMessages;
+	}
+
+	private static convertImage(block: AnthropicImageBlock): MessageContent {
+		const url =
+			block.source.type === "base64" ? `data:${block.source.media_type};base64,${block.source.data}` : block.source.url;
+		return { type: "image_url", image_url: { url } };
+	}
+
+	private static flattenText(blocks: Array<AnthropicTextBlock | AnthropicImageBlock>): string {
+		return blocks
+			.filter((block): block is AnthropicTextBlock => block.type === "text")
+			.map((block) => block.text)
+			.join("\n");
+	}
+}
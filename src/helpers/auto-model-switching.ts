@@ -1,5 +1,5 @@
 import { AUTO_SWITCH_MODEL_MAP, RATE_LIMIT_STATUS_CODES } from "../constants";
-import { Env, ChatMessage, UsageData, StreamChunk } from "../types";
+import { Env, ChatMessage, UsageData, StreamChunk, SystemPrompt } from "../types";
 
 /**
  * Helper class for handling automatic model switching on rate limit errors.
@@ -64,7 +64,7 @@ export class AutoModelSwitchingHelper {
 	 */
 	async handleNonStreamingFallback(
 		originalModel: string,
-		systemPrompt: string,
+		systemPrompt: SystemPrompt,
 		messages: ChatMessage[],
 		options:
 			| {
@@ -74,7 +74,7 @@ export class AutoModelSwitchingHelper {
 			| undefined,
 		streamContentFn: (
 			modelId: string,
-			systemPrompt: string,
+			systemPrompt: SystemPrompt,
 			messages: ChatMessage[],
 			options?: {
 				includeReasoning?: boolean;
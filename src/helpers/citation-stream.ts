@@ -0,0 +1,159 @@
+import { GroundingMetadata } from "../types/native-tools";
+
+// Text without a word break is released anyway once the held back tail grows this long
+const MAX_HELD_CHARACTERS = 256;
+
+const BREAK_CHARACTER = /\s|[.,!?;:]/;
+
+/**
+ * Inserts inline citations into the text of one streamed candidate.
+ * Gemini reports grounding segments as UTF-8 byte offsets into the whole response, so the stream
+ * counts the bytes it has released and holds back only the last unfinished word, where a citation
+ * may still have to go. Citations for text that was already sent only appear in the reference list.
+ */
+export class CitationStream {
+	private buffer = ""; // Response text received but not released yet
+	private bufferStart = 0; // Byte offset of the buffer in the response
+	private pending = new Map<number, string[]>(); // Citation links keyed by the byte offset they follow
+	private seenSupports = new Set<string>();
+	private metadata?: GroundingMetadata;
+
+	/**
+	 * Registers the grounding metadata reported with a chunk, it describes the whole response so far.
+	 * @param metadata - The grounding metadata of the candidate
+	 */
+	update(metadata: GroundingMetadata): void {
+		this.metadata = metadata;
+
+		for (const support of metadata.groundingSupports || []) {
+			const endIndex = support.segment?.endIndex;
+			if (endIndex === undefined || !support.groundingChunkIndices?.length) {
+				continue;
+			}
+			const key = `${support.segment.startIndex}:${endIndex}:${support.groundingChunkIndices.join(",")}`;
+			if (this.seenSupports.has(key)) {
+				continue;
+			}
+			this.seenSupports.add(key);
+
+			if (endIndex < this.bufferStart) {
+				console.debug(`[Citations] Segment ending at byte ${endIndex} was already sent, citing it in the sources only`);
+				continue;
+			}
+			const links = support.groundingChunkIndices
+				.map((i) => {
+					const uri = metadata.groundingChunks?.[i]?.web?.uri;
+					return uri ? `[${i + 1}](${uri})` : null;
+				})
+				.filter((link): link is string => link !== null);
+			if (links.length > 0) {
+				const existing = this.pending.get(endIndex) || [];
+				this.pending.set(endIndex, [...existing, ...links.filter((link) => !existing.includes(link))]);
+			}
+		}
+	}
+
+	/**
+	 * Adds response text and returns the part that can be sent now, with its citations inserted.
+	 * @param text - Response text from Gemini
+	 * @returns The text to send, possibly empty
+	 */
+	write(text: string): string {
+		this.buffer += text;
+
+		let cut = -1;
+		for (let i = this.buffer.length - 1; i >= 0; i--) {
+			if (BREAK_CHARACTER.test(this.buffer.charAt(i))) {
+				cut = i;
+				break;
+			}
+		}
+		if (cut < 0) {
+			if (this.buffer.length < MAX_HELD_CHARACTERS) {
+				return "";
+			}
+			cut = this.buffer.length;
+		}
+		return this.release(cut, false);
+	}
+
+	/**
+	 * Releases the held back text, used before other content is added to the response.
+	 * @returns The held back text with its citations, possibly empty
+	 */
+	flush(): string {
+		return this.release(this.buffer.length, true);
+	}
+
+	/**
+	 * Ends the stream, returning the held back text followed by the reference list.
+	 * @returns The remaining text to send, possibly empty
+	 */
+	end(): string {
+		const text = this.flush();
+		const references = this.createReferenceList();
+		this.metadata = undefined;
+		return text + references;
+	}
+
+	/**
+	 * Releases the buffer up to a character position, inserting the citations that fall before it.
+	 * A citation is moved forward to the next word break so it never splits a word or URL.
+	 */
+	private release(cut: number, final: boolean): string {
+		const insertions: Array<{ position: number; links: string[] }> = [];
+		for (const [byteOffset, links] of this.pending) {
+			const position = this.toCharIndex(byteOffset - this.bufferStart);
+			if (position === undefined) {
+				continue; // Not received yet
+			}
+			let safePosition = position;
+			while (safePosition < this.buffer.length && !BREAK_CHARACTER.test(this.buffer.charAt(safePosition))) {
+				safePosition++;
+			}
+			if (safePosition === this.buffer.length && !final && cut < this.buffer.length) {
+				continue; // The word break has not arrived yet
+			}
+			if (safePosition <= cut) {
+				insertions.push({ position: safePosition, links });
+				this.pending.delete(byteOffset);
+			}
+		}
+		insertions.sort((a, b) => a.position - b.position);
+
+		const released = this.buffer.slice(0, cut);
+		let output = "";
+		let position = 0;
+		for (const insertion of insertions) {
+			output += released.slice(position, insertion.position) + insertion.links.join(", ");
+			position = insertion.position;
+		}
+		output += released.slice(position);
+
+		this.bufferStart += new TextEncoder().encode(released).length;
+		this.buffer = this.buffer.slice(cut);
+		return output;
+	}
+
+	// Converts a byte offset relative to the buffer start into a character index of the buffer
+	private toCharIndex(byteOffset: number): number | undefined {
+		let bytes = 0;
+		let index = 0;
+		for (const char of this.buffer) {
+			if (bytes >= byteOffset) {
+				return index;
+			}
+			const codePoint = char.codePointAt(0) ?? 0;
+			bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+			index += char.length;
+		}
+		return bytes >= byteOffset ? index : undefined;
+	}
+
+	private createReferenceList(): string {
+		const sources = (this.metadata?.groundingChunks || []).flatMap((chunk, index) =>
+			chunk.web ? [`${index + 1}. [${chunk.web.title || chunk.web.uri}](${chunk.web.uri})`] : []
+		);
+		return sources.length > 0 ? `\n\n**Sources:**\n${sources.join("\n")}` : "";
+	}
+}
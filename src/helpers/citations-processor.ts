@@ -1,8 +1,9 @@
 import { Env } from "../types";
-import { GroundingMetadata, CitationSource } from "../types/native-tools";
+import { GroundingMetadata, CitationSource, UrlCitationAnnotation } from "../types/native-tools";
+import { CitationStream } from "./citation-stream";
 
 /**
- * Processes grounding metadata to add inline citations to text responses.
+ * Processes grounding metadata into inline citations, sources and annotations.
  * Implements the citation logic as described in the Gemini API documentation.
  */
 export class CitationsProcessor {
@@ -13,86 +14,59 @@ export class CitationsProcessor {
 	}
 
 	/**
-	 * Finds a "safe" insertion point for a citation to avoid breaking words or URLs.
-	 * It searches for the nearest whitespace or punctuation after the given index.
+	 * Starts inline citation tracking for one streamed candidate.
+	 * @returns The citation stream, or undefined when inline citations are disabled
 	 */
-	private findSafeInsertionPoint(text: string, index: number): number {
-		// If the index is at the end of the text, it's always safe
-		if (index >= text.length) {
-			return text.length;
-		}
-
-		// Check if the character at the index is already a safe break
-		const charAtIndex = text.charAt(index);
-		if (/\s|[.,!?;:]/.test(charAtIndex)) {
-			return index;
-		}
-
-		// Search forward for a safe break
-		for (let i = index; i < text.length; i++) {
-			const char = text.charAt(i);
-			if (/\s|[.,!?;:]/.test(char)) {
-				return i;
-			}
-		}
-
-		// If no safe break found, return the original index (fallback)
-		return index;
+	public createStream(): CitationStream | undefined {
+		return this.enableInlineCitations ? new CitationStream() : undefined;
 	}
 
-	public processChunk(textChunk: string, metadata?: GroundingMetadata): string {
-		if (!this.enableInlineCitations) {
-			return textChunk;
-		}
-
-		let citedTextChunk = textChunk; // This will be the textChunk with citations applied
-		let offset = 0; // Tracks the cumulative length added by inserted citations within the current textChunk
-
-		if (metadata && metadata.groundingSupports && metadata.groundingChunks) {
-			const sortedSupports = [...metadata.groundingSupports].sort(
-				(a, b) => (a.segment?.startIndex ?? 0) - (b.segment?.startIndex ?? 0)
-			);
-
-			for (const support of sortedSupports) {
-				const originalStartIndex = support.segment?.startIndex;
-				const originalEndIndex = support.segment?.endIndex;
-
-				// Only process citations that fall within the current textChunk
-				if (
-					originalStartIndex === undefined ||
-					originalEndIndex === undefined ||
-					!support.groundingChunkIndices?.length ||
-					originalStartIndex < 0 || // Ensure startIndex is not negative
-					originalEndIndex > textChunk.length // Ensure endIndex is within the current textChunk
-				) {
-					continue;
-				}
-
-				const citationLinks = support.groundingChunkIndices
-					.map((i) => {
-						const uri = metadata.groundingChunks[i]?.web?.uri;
-						if (uri) {
-							return `[${i + 1}](${uri})`;
+	/**
+	 * Converts grounding supports into url_citation annotations on the final content.
+	 * Gemini reports segment offsets in bytes of its own text, which no longer line up once thinking
+	 * or inline citations are added, so every segment is located by its text instead.
+	 * @param content - The message content as sent to the client
+	 * @param metadata - The grounding metadata of the candidate
+	 * @returns One annotation per cited web source and segment, in content order
+	 */
+	public static createAnnotations(content: string, metadata: GroundingMetadata): UrlCitationAnnotation[] {
+		const annotations: UrlCitationAnnotation[] = [];
+		const sortedSupports = [...(metadata.groundingSupports || [])].sort(
+			(a, b) => (a.segment?.startIndex ?? 0) - (b.segment?.startIndex ?? 0)
+		);
+		let searchFrom = 0;
+
+		for (const support of sortedSupports) {
+			const segmentText = support.segment?.text;
+			if (!segmentText || !support.groundingChunkIndices?.length) {
+				continue;
+			}
+			// Segments are ordered, but may overlap or repeat earlier text
+			let startIndex = content.indexOf(segmentText, searchFrom);
+			if (startIndex < 0) {
+				startIndex = content.indexOf(segmentText);
+			}
+			if (startIndex < 0) {
+				continue;
+			}
+			searchFrom = startIndex;
+
+			for (const chunkIndex of support.groundingChunkIndices) {
+				const web = metadata.groundingChunks?.[chunkIndex]?.web;
+				if (web?.uri) {
+					annotations.push({
+						type: "url_citation",
+						url_citation: {
+							start_index: startIndex,
+							end_index: startIndex + segmentText.length,
+							url: web.uri,
+							title: web.title
 						}
-						return null;
-					})
-					.filter(Boolean);
-
-				if (citationLinks.length > 0) {
-					const citationString = citationLinks.join(", ");
-					// Calculate the insertion index relative to the current `citedTextChunk`
-					const insertionIndex = originalEndIndex + offset;
-					const safeInsertionIndex = this.findSafeInsertionPoint(citedTextChunk, insertionIndex);
-
-					// Insert the citation into the citedTextChunk
-					citedTextChunk =
-						citedTextChunk.slice(0, safeInsertionIndex) + citationString + citedTextChunk.slice(safeInsertionIndex);
-
-					offset += citationString.length; // Update offset for subsequent insertions
+					});
 				}
 			}
 		}
-		return citedTextChunk;
+		return annotations;
 	}
 
 	/**
@@ -106,11 +80,10 @@ export class CitationsProcessor {
 	 * Extracts a structured list of sources with IDs, titles, and URIs.
 	 */
 	public extractSourceList(groundingMetadata: GroundingMetadata): CitationSource[] {
-		return groundingMetadata.groundingChunks.map((chunk, index) => ({
-			id: index + 1,
-			title: chunk.web.title,
-			uri: chunk.web.uri
-		}));
+		// Ids follow the chunk positions so they match the inline citation numbers
+		return (groundingMetadata.groundingChunks || []).flatMap((chunk, index) =>
+			chunk.web ? [{ id: index + 1, title: chunk.web.title, uri: chunk.web.uri }] : []
+		);
 	}
 
 	/**
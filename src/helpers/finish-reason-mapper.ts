@@ -0,0 +1,71 @@
+import { FinishReasonData, OpenAIFinishReason } from "../types";
+
+// Gemini finish reasons that mean the output was withheld or cut by a content policy
+const CONTENT_FILTER_REASONS = [
+	"SAFETY",
+	"RECITATION",
+	"LANGUAGE",
+	"BLOCKLIST",
+	"PROHIBITED_CONTENT",
+	"SPII",
+	"IMAGE_SAFETY"
+];
+
+/**
+ * Helper class to translate Gemini finish reasons and prompt blocks
+ * into the stop reasons of the supported API formats.
+ */
+export class FinishReasonMapper {
+	/**
+	 * Maps a Gemini finish reason to an OpenAI finish_reason.
+	 * @param finish - The Gemini finish data, if the candidate reported one
+	 * @param hasToolCalls - Whether the choice produced tool calls
+	 * @returns The OpenAI finish reason
+	 */
+	static toOpenAI(finish: FinishReasonData | undefined, hasToolCalls: boolean): OpenAIFinishReason {
+		if (this.isFiltered(finish)) {
+			return "content_filter";
+		}
+		if (finish?.reason === "MAX_TOKENS") {
+			return "length";
+		}
+		return hasToolCalls ? "tool_calls" : "stop";
+	}
+
+	/**
+	 * Maps a Gemini finish reason to an Anthropic stop_reason.
+	 * @param finish - The Gemini finish data, if the candidate reported one
+	 * @param hasToolUse - Whether the message contains tool_use blocks
+	 * @returns The Anthropic stop reason
+	 */
+	static toAnthropic(
+		finish: FinishReasonData | undefined,
+		hasToolUse: boolean
+	): "end_turn" | "max_tokens" | "tool_use" | "refusal" {
+		if (this.isFiltered(finish)) {
+			return "refusal";
+		}
+		if (finish?.reason === "MAX_TOKENS") {
+			return "max_tokens";
+		}
+		return hasToolUse ? "tool_use" : "end_turn";
+	}
+
+	/**
+	 * Maps a Gemini finish reason to the Responses API incomplete reason.
+	 * @param finish - The Gemini finish data, if the candidate reported one
+	 * @returns The incomplete reason, or undefined when the response completed normally
+	 */
+	static toResponsesIncompleteReason(
+		finish: FinishReasonData | undefined
+	): "max_output_tokens" | "content_filter" | undefined {
+		if (this.isFiltered(finish)) {
+			return "content_filter";
+		}
+		return finish?.reason === "MAX_TOKENS" ? "max_output_tokens" : undefined;
+	}
+
+	private static isFiltered(finish: FinishReasonData | undefined): boolean {
+		return !!finish && (finish.promptBlocked === true || CONTENT_FILTER_REASONS.includes(finish.reason));
+	}
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { GenerationConfigValidator } from "./generation-config-validator";
+
+describe("GenerationConfigValidator.findSchemaError", () => {
+	it("names a tool whose parameters use a remote reference", () => {
+		const error = GenerationConfigValidator.findSchemaError({
+			tools: [
+				{
+					type: "function",
+					function: { name: "lookup", parameters: { $ref: "https://example.com/schema.json" } }
+				}
+			]
+		});
+		expect(error).toMatch(/^Parameters of tool 'lookup': Unsupported schema reference/);
+	});
+
+	it("reports an unresolvable reference in the response schema", () => {
+		const error = GenerationConfigValidator.findSchemaError({
+			response_format: { type: "json_schema", json_schema: { schema: { $ref: "#/$defs/Missing" } } }
+		});
+		expect(error).toBe("Response schema: Unresolvable schema reference '#/$defs/Missing'");
+	});
+
+	it("accepts schemas with local references", () => {
+		const schema = { $defs: { Id: { type: "string" } }, type: "object", properties: { id: { $ref: "#/$defs/Id" } } };
+		expect(
+			GenerationConfigValidator.findSchemaError({
+				tools: [{ type: "function", function: { name: "lookup", parameters: schema } }],
+				response_format: { type: "json_schema", json_schema: { schema } }
+			})
+		).toBeUndefined();
+	});
+});
@@ -1,12 +1,17 @@
 import { geminiCliModels } from "../models";
 import {
 	DEFAULT_THINKING_BUDGET,
+	DISABLED_THINKING_BUDGET,
 	DEFAULT_TEMPERATURE,
-	REASONING_EFFORT_BUDGETS,
+	REASONING_EFFORT_BUDGET_SHARES,
+	REASONING_EFFORT_LOW_BUDGET,
+	THINKING_LEVELS,
 	GEMINI_SAFETY_CATEGORIES
 } from "../constants";
-import { ChatCompletionRequest, Env, EffortLevel, SafetyThreshold } from "../types";
+import { ChatCompletionRequest, Env, EffortLevel, SafetyThreshold, ThinkingLevel } from "../types";
 import { NativeToolsConfiguration } from "../types/native-tools";
+import { JsonSchemaConverter } from "./json-schema-converter";
+import { ToolSchemaNormalizer } from "./tool-schema-normalizer";
 
 /**
  * Helper class to validate and correct generation configurations for different Gemini models.
@@ -14,35 +19,103 @@ import { NativeToolsConfiguration } from "../types/native-tools";
  */
 export class GenerationConfigValidator {
 	/**
-	 * Maps reasoning effort to thinking budget based on model type.
+	 * Maps reasoning effort to a thinking budget within the model's range.
 	 * @param effort - The reasoning effort level
-	 * @param modelId - The model ID to determine if it's a flash model
+	 * @param modelId - The model ID, whose thinking capabilities bound the budget
 	 * @returns The corresponding thinking budget
 	 */
 	static mapEffortToThinkingBudget(effort: EffortLevel, modelId: string): number {
-		const isFlashModel = modelId.includes("flash");
+		const capabilities = geminiCliModels[modelId]?.thinkingCapabilities;
+		if (!capabilities) {
+			return effort === "none" ? DISABLED_THINKING_BUDGET : DEFAULT_THINKING_BUDGET;
+		}
 
 		switch (effort) {
 			case "none":
-				return REASONING_EFFORT_BUDGETS.none;
+				return capabilities.canDisable ? DISABLED_THINKING_BUDGET : capabilities.minBudget;
+			case "minimal":
+				return capabilities.minBudget;
 			case "low":
-				return REASONING_EFFORT_BUDGETS.low;
+				return Math.max(capabilities.minBudget, REASONING_EFFORT_LOW_BUDGET);
 			case "medium":
-				return isFlashModel ? REASONING_EFFORT_BUDGETS.medium.flash : REASONING_EFFORT_BUDGETS.medium.default;
 			case "high":
-				return isFlashModel ? REASONING_EFFORT_BUDGETS.high.flash : REASONING_EFFORT_BUDGETS.high.default;
+				return Math.round(capabilities.maxBudget * REASONING_EFFORT_BUDGET_SHARES[effort]);
 			default:
 				return DEFAULT_THINKING_BUDGET;
 		}
 	}
 
+	/**
+	 * Picks the supported thinking level closest to the requested one, ties go to the higher level.
+	 * @param level - The requested thinking level
+	 * @param supported - The levels the model accepts
+	 * @returns The thinking level to send
+	 */
+	static mapToSupportedThinkingLevel(level: ThinkingLevel, supported: ThinkingLevel[]): ThinkingLevel {
+		const rank = (value: ThinkingLevel) => THINKING_LEVELS.indexOf(value);
+		return supported.reduce((best, candidate) => {
+			const distance = Math.abs(rank(candidate) - rank(level));
+			const bestDistance = Math.abs(rank(best) - rank(level));
+			return distance < bestDistance || (distance === bestDistance && rank(candidate) > rank(best)) ? candidate : best;
+		});
+	}
+
 	/**
 	 * Type guard to check if a value is a valid EffortLevel.
 	 * @param value - The value to check
 	 * @returns True if the value is a valid EffortLevel
 	 */
 	static isValidEffortLevel(value: unknown): value is EffortLevel {
-		return typeof value === "string" && ["none", "low", "medium", "high"].includes(value);
+		return typeof value === "string" && ["none", ...THINKING_LEVELS].includes(value);
+	}
+
+	/**
+	 * Type guard to check if a value is a valid ThinkingLevel.
+	 * @param value - The value to check
+	 * @returns True if the value is a valid ThinkingLevel
+	 */
+	static isValidThinkingLevel(value: unknown): value is ThinkingLevel {
+		return typeof value === "string" && (THINKING_LEVELS as string[]).includes(value);
+	}
+
+	/**
+	 * Resolves the thinking settings of a request for a model. A thinking level takes precedence over the
+	 * reasoning effort, which takes precedence over an explicit budget. Models configured by level get a
+	 * thinkingLevel, other models a budget, and asking for an effort turns reasoning on or, for none, off.
+	 * @param modelId - The Gemini model ID
+	 * @param request - The thinking settings of the request
+	 * @param includeReasoning - Whether reasoning would be included without an effort
+	 * @returns Whether to include reasoning, with either a thinking level or a thinking budget
+	 */
+	static resolveThinking(
+		modelId: string,
+		request: { thinking_budget?: number; thinking_level?: ThinkingLevel; reasoning_effort?: EffortLevel },
+		includeReasoning: boolean
+	): { includeReasoning: boolean; thinkingLevel?: ThinkingLevel; thinkingBudget?: number } {
+		const effort = this.isValidEffortLevel(request.reasoning_effort) ? request.reasoning_effort : undefined;
+		const level = this.isValidThinkingLevel(request.thinking_level) ? request.thinking_level : undefined;
+		if (effort) {
+			includeReasoning = effort !== "none";
+		}
+
+		const supportedLevels = geminiCliModels[modelId]?.thinkingCapabilities?.thinkingLevels;
+		if (supportedLevels) {
+			// Thinking cannot be disabled with a level, none uses the lowest one
+			const requested = level ?? (effort === "none" ? supportedLevels[0] : effort);
+			if (requested) {
+				return { includeReasoning, thinkingLevel: this.mapToSupportedThinkingLevel(requested, supportedLevels) };
+			}
+			// Budgets are still accepted by these models for compatibility
+			return { includeReasoning, thinkingBudget: request.thinking_budget };
+		}
+
+		const requestedEffort = level ?? effort;
+		return {
+			includeReasoning,
+			thinkingBudget: requestedEffort
+				? this.mapEffortToThinkingBudget(requestedEffort, modelId)
+				: request.thinking_budget
+		};
 	}
 
 	/**
@@ -91,27 +164,33 @@ export class GenerationConfigValidator {
 	 * @returns The corrected thinking budget
 	 */
 	static validateThinkingBudget(modelId: string, thinkingBudget: number): number {
-		const modelInfo = geminiCliModels[modelId];
+		const capabilities = geminiCliModels[modelId]?.thinkingCapabilities;
+		if (!capabilities || thinkingBudget === DEFAULT_THINKING_BUDGET) {
+			return thinkingBudget;
+		}
 
-		// For thinking models, validate the budget
-		if (modelInfo?.thinking) {
-			// Gemini 2.5 Pro and Flash don't support thinking_budget: 0
-			// They require -1 (dynamic allocation) or positive numbers
-			if (thinkingBudget === 0) {
-				console.log(`[GenerationConfig] Model '${modelId}' doesn't support thinking_budget: 0, using -1 instead`);
-				return DEFAULT_THINKING_BUDGET; // -1
+		if (thinkingBudget === DISABLED_THINKING_BUDGET) {
+			if (capabilities.canDisable) {
+				return thinkingBudget;
 			}
+			console.log(`[GenerationConfig] Model '${modelId}' doesn't support thinking_budget: 0, using -1 instead`);
+			return DEFAULT_THINKING_BUDGET;
+		}
 
-			// Validate positive budget values (optional: add upper limits if needed)
-			if (thinkingBudget < -1) {
-				console.log(
-					`[GenerationConfig] Invalid thinking_budget: ${thinkingBudget} for model '${modelId}', using -1 instead`
-				);
-				return DEFAULT_THINKING_BUDGET; // -1
-			}
+		if (thinkingBudget < DEFAULT_THINKING_BUDGET) {
+			console.log(
+				`[GenerationConfig] Invalid thinking_budget: ${thinkingBudget} for model '${modelId}', using -1 instead`
+			);
+			return DEFAULT_THINKING_BUDGET;
 		}
 
-		return thinkingBudget;
+		const clamped = Math.min(Math.max(thinkingBudget, capabilities.minBudget), capabilities.maxBudget);
+		if (clamped !== thinkingBudget) {
+			console.log(
+				`[GenerationConfig] thinking_budget: ${thinkingBudget} is out of range for model '${modelId}', using ${clamped} instead`
+			);
+		}
+		return clamped;
 	}
 
 	/**
@@ -136,49 +215,38 @@ export class GenerationConfigValidator {
 			stopSequences: typeof options.stop === "string" ? [options.stop] : options.stop,
 			presencePenalty: options.presence_penalty,
 			frequencyPenalty: options.frequency_penalty,
-			seed: options.seed
+			seed: options.seed,
+			candidateCount: options.n
 		};
 
 		if (options.response_format?.type === "json_object") {
 			generationConfig.responseMimeType = "application/json";
+		} else if (options.response_format?.type === "json_schema") {
+			generationConfig.responseMimeType = "application/json";
+			const schema = options.response_format.json_schema?.schema;
+			if (schema) {
+				generationConfig.responseSchema = JsonSchemaConverter.toGeminiSchema(schema);
+			}
 		}
 
 		const modelInfo = geminiCliModels[modelId];
 		const isThinkingModel = modelInfo?.thinking || false;
 
 		if (isThinkingModel) {
-			let thinkingBudget = options.thinking_budget ?? DEFAULT_THINKING_BUDGET;
-
-			// Handle reasoning effort mapping to thinking budget
-			const reasoning_effort =
-				options.reasoning_effort || options.extra_body?.reasoning_effort || options.model_params?.reasoning_effort;
-
-			if (reasoning_effort && this.isValidEffortLevel(reasoning_effort)) {
-				thinkingBudget = this.mapEffortToThinkingBudget(reasoning_effort, modelId);
-				// If effort is "none", disable reasoning
-				if (reasoning_effort === "none") {
-					includeReasoning = false;
-				} else {
-					includeReasoning = true;
-				}
-			}
+			const thinking = this.resolveThinking(modelId, options, includeReasoning);
+			const thinkingConfig: Record<string, unknown> = thinking.thinkingLevel
+				? { thinkingLevel: thinking.thinkingLevel }
+				: { thinkingBudget: this.validateThinkingBudget(modelId, thinking.thinkingBudget ?? DEFAULT_THINKING_BUDGET) };
 
-			const validatedBudget = this.validateThinkingBudget(modelId, thinkingBudget);
-
-			if (isRealThinkingEnabled && includeReasoning) {
-				// Enable thinking with validated budget
-				generationConfig.thinkingConfig = {
-					thinkingBudget: validatedBudget,
-					includeThoughts: true // Critical: This enables thinking content in response
-				};
-				console.log(`[GenerationConfig] Real thinking enabled for '${modelId}' with budget: ${validatedBudget}`);
-			} else {
-				// For thinking models, always use validated budget (can't use 0)
-				// Control thinking visibility with includeThoughts instead
-				generationConfig.thinkingConfig = {
-					thinkingBudget: this.validateThinkingBudget(modelId, DEFAULT_THINKING_BUDGET),
-					includeThoughts: false // Disable thinking visibility in response
-				};
+			// The budget or level applies either way, includeThoughts only controls whether thinking is returned
+			thinkingConfig.includeThoughts = isRealThinkingEnabled && thinking.includeReasoning;
+			generationConfig.thinkingConfig = thinkingConfig;
+			if (thinkingConfig.includeThoughts) {
+				console.log(
+					`[GenerationConfig] Real thinking enabled for '${modelId}' with ${
+						thinking.thinkingLevel ? `level: ${thinking.thinkingLevel}` : `budget: ${thinkingConfig.thinkingBudget}`
+					}`
+				);
 			}
 		}
 
@@ -187,32 +255,40 @@ export class GenerationConfigValidator {
 		return generationConfig;
 	}
 
+	/**
+	 * Converts the tool parameters and the response schema of a request ahead of generation, so a schema
+	 * that cannot be converted, such as one with a remote $ref, is rejected before a stream starts.
+	 * @param options - The tools and response format of the request
+	 * @returns An error message naming the invalid schema, or undefined when every schema converts
+	 */
+	static findSchemaError(options: Pick<ChatCompletionRequest, "tools" | "response_format">): string | undefined {
+		const schemas: Array<[string, Record<string, unknown> | undefined]> = (options.tools || []).map((tool) => [
+			`Parameters of tool '${tool.function.name}'`,
+			tool.function.parameters
+		]);
+		if (options.response_format?.type === "json_schema") {
+			schemas.push(["Response schema", options.response_format.json_schema?.schema]);
+		}
+
+		for (const [name, schema] of schemas) {
+			if (!schema || typeof schema !== "object") {
+				continue;
+			}
+			try {
+				JsonSchemaConverter.toGeminiSchema(schema);
+			} catch (error: unknown) {
+				return `${name}: ${error instanceof Error ? error.message : String(error)}`;
+			}
+		}
+		return undefined;
+	}
+
 	static createValidateTools(options: Partial<ChatCompletionRequest> = {}) {
 		const tools = [];
 		let toolConfig = {};
 		// Add tools configuration if provided
 		if (Array.isArray(options.tools) && options.tools.length > 0) {
-			const functionDeclarations = options.tools.map((tool) => {
-				let parameters = tool.function.parameters;
-				// Filter parameters for Claude-style compatibility by removing keys starting with '$'
-				if (parameters) {
-					const before = parameters;
-					parameters = Object.keys(parameters)
-						.filter((key) => !key.startsWith("$"))
-						.reduce(
-							(after, key) => {
-								after[key] = before[key];
-								return after;
-							},
-							{} as Record<string, unknown>
-						);
-				}
-				return {
-					name: tool.function.name,
-					description: tool.function.description,
-					parameters
-				};
-			});
+			const functionDeclarations = options.tools.map((tool) => ToolSchemaNormalizer.toFunctionDeclaration(tool));
 
 			tools.push({ functionDeclarations });
 			// Handle tool choice
@@ -221,6 +297,9 @@ export class GenerationConfigValidator {
 					toolConfig = { functionCallingConfig: { mode: "AUTO" } };
 				} else if (options.tool_choice === "none") {
 					toolConfig = { functionCallingConfig: { mode: "NONE" } };
+				} else if (options.tool_choice === "required") {
+					// Forces a call without restricting which function is used
+					toolConfig = { functionCallingConfig: { mode: "ANY" } };
 				} else if (typeof options.tool_choice === "object" && options.tool_choice.function) {
 					toolConfig = {
 						functionCallingConfig: {
@@ -241,29 +320,28 @@ export class GenerationConfigValidator {
 		tools: unknown[] | undefined;
 		toolConfig: unknown | undefined;
 	} {
+		const nativeTools = config.nativeTools.map((tool) => {
+			if (tool.google_search) {
+				return { google_search: tool.google_search };
+			}
+			if (tool.url_context) {
+				return { url_context: tool.url_context };
+			}
+			return tool;
+		});
+
 		if (config.useCustomTools && config.customTools && config.customTools.length > 0) {
-			const { toolConfig } = this.createValidateTools(options);
+			const { tools, toolConfig } = this.createValidateTools({ ...options, tools: config.customTools });
 			return {
-				tools: [
-					{
-						functionDeclarations: config.customTools.map((t) => t.function)
-					}
-				],
+				// Mixed mode sends the native tools next to the function declarations
+				tools: config.useNativeTools ? [...nativeTools, ...tools] : tools,
 				toolConfig: toolConfig
 			};
 		}
 
-		if (config.useNativeTools && config.nativeTools && config.nativeTools.length > 0) {
+		if (config.useNativeTools && nativeTools.length > 0) {
 			return {
-				tools: config.nativeTools.map((tool) => {
-					if (tool.google_search) {
-						return { google_search: tool.google_search };
-					}
-					if (tool.url_context) {
-						return { url_context: tool.url_context };
-					}
-					return tool;
-				}),
+				tools: nativeTools,
 				toolConfig: undefined // Native tools don't use toolConfig in the same way
 			};
 		}
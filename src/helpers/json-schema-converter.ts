@@ -0,0 +1,280 @@
+type JsonSchema = Record<string, unknown>;
+
+interface ConversionContext {
+	root: JsonSchema;
+	refStack: string[];
+	path: string;
+	changes?: string[];
+}
+
+// Keywords understood by Gemini's OpenAPI-style Schema object that are copied as-is
+const PASSTHROUGH_KEYWORDS = [
+	"title",
+	"description",
+	"nullable",
+	"default",
+	"example",
+	"minItems",
+	"maxItems",
+	"minLength",
+	"maxLength",
+	"pattern",
+	"minimum",
+	"maximum",
+	"minProperties",
+	"maxProperties"
+];
+
+// Keywords that are translated by the converter rather than copied
+const TRANSLATED_KEYWORDS = [
+	"type",
+	"properties",
+	"required",
+	"items",
+	"prefixItems",
+	"enum",
+	"const",
+	"format",
+	"exclusiveMinimum",
+	"exclusiveMaximum"
+];
+
+// Gemini only accepts a handful of format values, anything else is rejected
+const SUPPORTED_FORMATS: Record<string, string[]> = {
+	STRING: ["enum", "date-time"],
+	NUMBER: ["float", "double"],
+	INTEGER: ["int32", "int64"]
+};
+
+/**
+ * Helper class to convert JSON Schema documents into the OpenAPI subset
+ * accepted by Gemini's Schema object (responseSchema and function parameters).
+ */
+export class JsonSchemaConverter {
+	/**
+	 * Converts a JSON Schema into a Gemini schema.
+	 * Local $refs are inlined, nullable unions collapse into `nullable` and
+	 * keywords Gemini does not understand are dropped.
+	 * @param schema - The JSON Schema to convert
+	 * @param changes - Optional list that receives a description of every rewrite, prefixed by its path
+	 * @returns The Gemini-compatible schema
+	 */
+	static toGeminiSchema(schema: JsonSchema, changes?: string[]): JsonSchema {
+		return this.convert(schema, { root: schema, refStack: [], path: "$", changes });
+	}
+
+	private static convert(schema: JsonSchema, context: ConversionContext): JsonSchema {
+		if (typeof schema.$ref === "string") {
+			const ref = schema.$ref;
+			// Recursive schemas cannot be expressed without refs, stop at an untyped object
+			if (context.refStack.includes(ref)) {
+				this.record(context, `replaced recursive reference '${ref}' with an untyped object`);
+				return this.clean({ type: "OBJECT", description: schema.description });
+			}
+			const resolved = this.resolveRef(ref, context.root);
+			this.record(context, `inlined reference '${ref}'`);
+			return this.convert(
+				{ ...resolved, ...this.omit(schema, ["$ref"]) },
+				{ ...context, refStack: [...context.refStack, ref] }
+			);
+		}
+
+		if (Array.isArray(schema.allOf)) {
+			const merged = this.mergeAllOf(this.omit(schema, ["allOf"]), schema.allOf as JsonSchema[], context.root);
+			this.record(context, "merged allOf");
+			return this.convert(merged, context);
+		}
+
+		const union = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+		if (Array.isArray(union)) {
+			const rest = this.omit(schema, ["anyOf", "oneOf"]);
+			const variants = union.filter((variant) => variant.type !== "null");
+			const nullable = variants.length < union.length ? true : undefined;
+			if (nullable) {
+				this.record(context, "collapsed null union member into nullable");
+			}
+
+			if (variants.length === 1) {
+				return this.convert({ ...variants[0], ...rest, ...(nullable && { nullable }) }, context);
+			}
+			if (schema.oneOf) {
+				this.record(context, "rewrote oneOf as anyOf");
+			}
+			return this.clean({
+				...this.convertKeywords(rest, context),
+				nullable,
+				anyOf: variants.map((variant, index) => this.convert(variant, this.at(context, `anyOf[${index}]`)))
+			});
+		}
+
+		if (Array.isArray(schema.type)) {
+			const types = (schema.type as string[]).filter((type) => type !== "null");
+			const nullable = types.length < schema.type.length ? true : undefined;
+			if (nullable) {
+				this.record(context, "collapsed null type into nullable");
+			}
+			if (types.length === 1) {
+				return this.convert({ ...schema, type: types[0], ...(nullable && { nullable }) }, context);
+			}
+			const rest = this.omit(schema, ["type"]);
+			this.record(context, "rewrote type array as anyOf");
+			return this.clean({
+				...this.convertKeywords(rest, context),
+				nullable,
+				anyOf: types.map((type, index) => this.convert({ ...rest, type }, this.at(context, `anyOf[${index}]`)))
+			});
+		}
+
+		return this.clean(this.convertKeywords(schema, context));
+	}
+
+	private static convertKeywords(schema: JsonSchema, context: ConversionContext): JsonSchema {
+		const result: JsonSchema = {};
+		for (const keyword of PASSTHROUGH_KEYWORDS) {
+			if (schema[keyword] !== undefined) {
+				result[keyword] = schema[keyword];
+			}
+		}
+
+		const dropped = Object.keys(schema).filter(
+			(keyword) => !PASSTHROUGH_KEYWORDS.includes(keyword) && !TRANSLATED_KEYWORDS.includes(keyword)
+		);
+		if (dropped.length > 0) {
+			this.record(context, `dropped unsupported keywords ${dropped.join(", ")}`);
+		}
+
+		// Exclusive bounds are approximated by their inclusive counterparts
+		if (typeof schema.exclusiveMinimum === "number" && result.minimum === undefined) {
+			result.minimum = schema.exclusiveMinimum;
+			this.record(context, "approximated exclusiveMinimum with minimum");
+		}
+		if (typeof schema.exclusiveMaximum === "number" && result.maximum === undefined) {
+			result.maximum = schema.exclusiveMaximum;
+			this.record(context, "approximated exclusiveMaximum with maximum");
+		}
+
+		const type = this.inferType(schema);
+		if (type) {
+			result.type = type;
+		}
+
+		// Gemini enums must be strings, const is expressed as a single-value enum
+		const values = schema.const !== undefined ? [schema.const] : (schema.enum as unknown[] | undefined);
+		if (Array.isArray(values)) {
+			if (values.every((value) => typeof value === "string")) {
+				result.type = "STRING";
+				result.enum = values;
+				result.format = "enum";
+				if (schema.const !== undefined) {
+					this.record(context, "rewrote const as a single-value enum");
+				}
+			} else {
+				this.record(context, "dropped non-string enum values");
+			}
+		} else if (typeof schema.format === "string") {
+			if (type && SUPPORTED_FORMATS[type]?.includes(schema.format)) {
+				result.format = schema.format;
+			} else {
+				this.record(context, `dropped unsupported format '${schema.format}'`);
+			}
+		}
+
+		if (schema.properties && typeof schema.properties === "object") {
+			const properties: JsonSchema = {};
+			for (const [name, property] of Object.entries(schema.properties as Record<string, JsonSchema>)) {
+				properties[name] = this.convert(property, this.at(context, `properties.${name}`));
+			}
+			result.properties = properties;
+			// Keep the declared order, Gemini otherwise sorts properties alphabetically
+			result.propertyOrdering = Object.keys(properties);
+
+			if (Array.isArray(schema.required)) {
+				result.required = (schema.required as string[]).filter((name) => name in properties);
+			}
+		}
+
+		// Tuple validation has no Gemini equivalent, accept any of the positional schemas instead
+		const items = schema.prefixItems ?? schema.items;
+		if (Array.isArray(items)) {
+			const converted = (items as JsonSchema[]).map((item, index) =>
+				this.convert(item, this.at(context, `items[${index}]`))
+			);
+			result.items = converted.length === 1 ? converted[0] : { anyOf: converted };
+			this.record(context, "rewrote tuple items as anyOf");
+		} else if (items && typeof items === "object") {
+			result.items = this.convert(items as JsonSchema, this.at(context, "items"));
+		}
+
+		return result;
+	}
+
+	private static inferType(schema: JsonSchema): string | undefined {
+		if (typeof schema.type === "string") {
+			return schema.type === "null" ? undefined : schema.type.toUpperCase();
+		}
+		if (schema.properties) {
+			return "OBJECT";
+		}
+		if (schema.items || schema.prefixItems) {
+			return "ARRAY";
+		}
+		return undefined;
+	}
+
+	private static mergeAllOf(base: JsonSchema, members: JsonSchema[], root: JsonSchema): JsonSchema {
+		const merged: JsonSchema = { ...base };
+		const properties: JsonSchema = { ...((base.properties as JsonSchema) || {}) };
+		const required = new Set<string>((base.required as string[]) || []);
+
+		for (const member of members) {
+			const resolved = typeof member.$ref === "string" ? { ...this.resolveRef(member.$ref, root), ...member } : member;
+			Object.assign(merged, this.omit(resolved, ["properties", "required", "$ref"]));
+			Object.assign(properties, resolved.properties || {});
+			for (const name of (resolved.required as string[]) || []) {
+				required.add(name);
+			}
+		}
+
+		if (Object.keys(properties).length > 0) {
+			merged.properties = properties;
+		}
+		if (required.size > 0) {
+			merged.required = [...required];
+		}
+		return merged;
+	}
+
+	private static resolveRef(ref: string, root: JsonSchema): JsonSchema {
+		if (!ref.startsWith("#")) {
+			throw new Error(`Unsupported schema reference '${ref}': only local references are allowed`);
+		}
+
+		let target: unknown = root;
+		for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+			const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+			target = (target as JsonSchema | undefined)?.[key];
+		}
+
+		if (!target || typeof target !== "object") {
+			throw new Error(`Unresolvable schema reference '${ref}'`);
+		}
+		return target as JsonSchema;
+	}
+
+	private static at(context: ConversionContext, segment: string): ConversionContext {
+		return { ...context, path: `${context.path}.${segment}` };
+	}
+
+	private static record(context: ConversionContext, change: string): void {
+		context.changes?.push(`${context.path}: ${change}`);
+	}
+
+	private static omit(schema: JsonSchema, keys: string[]): JsonSchema {
+		return Object.fromEntries(Object.entries(schema).filter(([key]) => !keys.includes(key)));
+	}
+
+	private static clean(schema: JsonSchema): JsonSchema {
+		Object.keys(schema).forEach((key) => schema[key] === undefined && delete schema[key]);
+		return schema;
+	}
+}
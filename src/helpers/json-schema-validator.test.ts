@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { JsonSchemaValidator } from "./json-schema-validator";
+
+describe("JsonSchemaValidator", () => {
+	it("checks string patterns", () => {
+		expect(JsonSchemaValidator.validate("abc", { type: "string", pattern: "^[a-z]+$" })).toEqual([]);
+		expect(JsonSchemaValidator.validate("ABC", { type: "string", pattern: "^[a-z]+$" })).toEqual([
+			"$: does not match pattern ^[a-z]+$"
+		]);
+	});
+
+	it("accepts patterns written for the non-unicode flavor", () => {
+		const schema = { type: "string", pattern: "^[a-z\\_]+$" };
+		expect(JsonSchemaValidator.validate("a_b", schema)).toEqual([]);
+		expect(JsonSchemaValidator.validate("a-b", schema)).toEqual(["$: does not match pattern ^[a-z\\_]+$"]);
+	});
+
+	it("skips patterns that cannot be compiled", () => {
+		expect(JsonSchemaValidator.validate("anything", { type: "string", pattern: "([a-z" })).toEqual([]);
+	});
+});
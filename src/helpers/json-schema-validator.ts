@@ -0,0 +1,226 @@
+type JsonSchema = Record<string, unknown>;
+
+// Compiled patterns keyed by their source, null when the pattern cannot be compiled
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Helper class implementing the commonly used subset of JSON Schema validation.
+ * Used to verify model output when a client asks for strict structured output.
+ */
+export class JsonSchemaValidator {
+	/**
+	 * Validates a value against a JSON Schema.
+	 * @param value - The value to validate
+	 * @param schema - The JSON Schema describing the expected value
+	 * @returns A list of validation errors, empty when the value conforms
+	 */
+	static validate(value: unknown, schema: JsonSchema): string[] {
+		const errors: string[] = [];
+		this.check(value, schema, schema, "$", errors);
+		return errors;
+	}
+
+	private static check(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: string[]): void {
+		if (typeof schema.$ref === "string") {
+			const resolved = this.resolveRef(schema.$ref, root);
+			if (!resolved) {
+				errors.push(`${path}: unresolvable reference '${schema.$ref}'`);
+				return;
+			}
+			this.check(value, resolved, root, path, errors);
+		}
+
+		if (value === null && schema.nullable === true) {
+			return;
+		}
+
+		if (schema.type !== undefined) {
+			const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+			if (!types.some((type) => this.matchesType(value, type))) {
+				errors.push(`${path}: expected ${types.join(" or ")}, got ${this.typeOf(value)}`);
+				return;
+			}
+		}
+
+		if (schema.const !== undefined && !this.isEqual(value, schema.const)) {
+			errors.push(`${path}: expected constant ${JSON.stringify(schema.const)}`);
+		}
+		if (Array.isArray(schema.enum) && !schema.enum.some((option) => this.isEqual(value, option))) {
+			errors.push(`${path}: expected one of ${JSON.stringify(schema.enum)}`);
+		}
+
+		if (Array.isArray(schema.allOf)) {
+			for (const member of schema.allOf as JsonSchema[]) {
+				this.check(value, member, root, path, errors);
+			}
+		}
+		if (Array.isArray(schema.anyOf) && !this.countMatches(value, schema.anyOf as JsonSchema[], root, path)) {
+			errors.push(`${path}: does not match any of the allowed schemas`);
+		}
+		if (Array.isArray(schema.oneOf) && this.countMatches(value, schema.oneOf as JsonSchema[], root, path) !== 1) {
+			errors.push(`${path}: must match exactly one of the allowed schemas`);
+		}
+
+		if (typeof value === "string") {
+			this.checkString(value, schema, path, errors);
+		} else if (typeof value === "number") {
+			this.checkNumber(value, schema, path, errors);
+		} else if (Array.isArray(value)) {
+			this.checkArray(value, schema, root, path, errors);
+		} else if (value && typeof value === "object") {
+			this.checkObject(value as Record<string, unknown>, schema, root, path, errors);
+		}
+	}
+
+	private static checkString(value: string, schema: JsonSchema, path: string, errors: string[]): void {
+		if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+			errors.push(`${path}: must be at least ${schema.minLength} characters long`);
+		}
+		if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+			errors.push(`${path}: must be at most ${schema.maxLength} characters long`);
+		}
+		if (typeof schema.pattern === "string" && this.compilePattern(schema.pattern)?.test(value) === false) {
+			errors.push(`${path}: does not match pattern ${schema.pattern}`);
+		}
+	}
+
+	/**
+	 * Compiles a pattern once. Clients often write patterns for the non-unicode flavor, such as `[a-z\_]`,
+	 * so a pattern the unicode flavor rejects is retried without it, and one that still fails is skipped.
+	 */
+	private static compilePattern(pattern: string): RegExp | null {
+		let compiled = compiledPatterns.get(pattern);
+		if (compiled !== undefined) {
+			return compiled;
+		}
+		for (const flags of ["u", ""]) {
+			try {
+				compiled = new RegExp(pattern, flags);
+				break;
+			} catch {
+				compiled = null;
+			}
+		}
+		if (!compiled) {
+			console.debug(`[JsonSchemaValidator] Skipping invalid pattern ${pattern}`);
+		}
+		compiledPatterns.set(pattern, compiled ?? null);
+		return compiled ?? null;
+	}
+
+	private static checkNumber(value: number, schema: JsonSchema, path: string, errors: string[]): void {
+		if (typeof schema.minimum === "number" && value < schema.minimum) {
+			errors.push(`${path}: must be >= ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === "number" && value > schema.maximum) {
+			errors.push(`${path}: must be <= ${schema.maximum}`);
+		}
+		if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+			errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+		}
+		if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+			errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+		}
+	}
+
+	private static checkArray(
+		value: unknown[],
+		schema: JsonSchema,
+		root: JsonSchema,
+		path: string,
+		errors: string[]
+	): void {
+		if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+			errors.push(`${path}: must contain at least ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+			errors.push(`${path}: must contain at most ${schema.maxItems} items`);
+		}
+
+		const tuple = (schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined)) as
+			| JsonSchema[]
+			| undefined;
+		value.forEach((item, index) => {
+			const itemSchema = tuple ? tuple[index] : (schema.items as JsonSchema | undefined);
+			if (itemSchema && typeof itemSchema === "object") {
+				this.check(item, itemSchema, root, `${path}[${index}]`, errors);
+			}
+		});
+	}
+
+	private static checkObject(
+		value: Record<string, unknown>,
+		schema: JsonSchema,
+		root: JsonSchema,
+		path: string,
+		errors: string[]
+	): void {
+		const properties = (schema.properties as Record<string, JsonSchema> | undefined) || {};
+
+		for (const name of (schema.required as string[] | undefined) || []) {
+			if (!(name in value)) {
+				errors.push(`${path}: missing required property '${name}'`);
+			}
+		}
+
+		for (const [name, propertyValue] of Object.entries(value)) {
+			const propertyPath = `${path}.${name}`;
+			if (properties[name]) {
+				this.check(propertyValue, properties[name], root, propertyPath, errors);
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${propertyPath}: additional property is not allowed`);
+			} else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+				this.check(propertyValue, schema.additionalProperties as JsonSchema, root, propertyPath, errors);
+			}
+		}
+	}
+
+	private static countMatches(value: unknown, schemas: JsonSchema[], root: JsonSchema, path: string): number {
+		return schemas.filter((candidate) => {
+			const candidateErrors: string[] = [];
+			this.check(value, candidate, root, path, candidateErrors);
+			return candidateErrors.length === 0;
+		}).length;
+	}
+
+	/**
+	 * Checks whether a value has the given JSON Schema type.
+	 */
+	static matchesType(value: unknown, type: string): boolean {
+		switch (type.toLowerCase()) {
+			case "null":
+				return value === null;
+			case "integer":
+				return Number.isInteger(value);
+			case "array":
+				return Array.isArray(value);
+			case "object":
+				return typeof value === "object" && value !== null && !Array.isArray(value);
+			default:
+				return typeof value === type.toLowerCase();
+		}
+	}
+
+	private static typeOf(value: unknown): string {
+		if (value === null) {
+			return "null";
+		}
+		return Array.isArray(value) ? "array" : typeof value;
+	}
+
+	private static isEqual(a: unknown, b: unknown): boolean {
+		return JSON.stringify(a) === JSON.stringify(b);
+	}
+
+	/**
+	 * Resolves a local reference such as `#/$defs/Item` against the root schema.
+	 */
+	static resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+		let target: unknown = root;
+		for (const segment of ref.replace(/^#/, "").split("/").filter(Boolean)) {
+			const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+			target = (target as JsonSchema | undefined)?.[key];
+		}
+		return target && typeof target === "object" ? (target as JsonSchema) : undefined;
+	}
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { ChatMessage } from "../types";
+import { LegacyFunctionConverter } from "./legacy-function-converter";
+
+const call = (name: string): ChatMessage => ({
+	role: "assistant",
+	content: "",
+	function_call: { name, arguments: "{}" }
+});
+const result = (name: string): ChatMessage => ({ role: "function", name, content: "42" });
+
+describe("LegacyFunctionConverter", () => {
+	it("pairs each function result with the latest unanswered call of the same name", () => {
+		const messages = LegacyFunctionConverter.toToolMessages([call("a"), call("b"), result("b"), result("a")]);
+		const [callA, callB, resultB, resultA] = messages;
+		expect(resultB).toMatchObject({ role: "tool", tool_call_id: callB.tool_calls?.[0].id });
+		expect(resultA).toMatchObject({ role: "tool", tool_call_id: callA.tool_calls?.[0].id });
+	});
+
+	it("accepts results that answer a preceding call", () => {
+		expect(LegacyFunctionConverter.findUnmatchedResult([call("a"), result("a")])).toBeUndefined();
+	});
+
+	it("names a function result without a matching call", () => {
+		expect(LegacyFunctionConverter.findUnmatchedResult([{ role: "user", content: "hi" }, result("lookup")])).toBe(
+			"Function message 1 ('lookup') does not answer any preceding assistant function_call"
+		);
+	});
+
+	it("does not pair a second result with an already answered call", () => {
+		expect(LegacyFunctionConverter.findUnmatchedResult([call("a"), result("a"), result("a")])).toBe(
+			"Function message 2 ('a') does not answer any preceding assistant function_call"
+		);
+	});
+});
@@ -0,0 +1,88 @@
+import { ChatCompletionRequest, ChatMessage, Tool, ToolChoice } from "../types";
+
+/**
+ * Helper class to translate the deprecated OpenAI function calling fields
+ * (functions, function_call and "function" role messages) into their tool equivalents.
+ */
+export class LegacyFunctionConverter {
+	/**
+	 * Returns the tools of a request, falling back to the deprecated functions list.
+	 * @param body - The chat completion request
+	 * @returns The tools to declare, if any
+	 */
+	static toTools(body: ChatCompletionRequest): Tool[] | undefined {
+		if (body.tools || !body.functions) {
+			return body.tools;
+		}
+		return body.functions.map((definition) => ({ type: "function", function: definition }));
+	}
+
+	/**
+	 * Returns the tool choice of a request, falling back to the deprecated function_call field.
+	 * @param body - The chat completion request
+	 * @returns The tool choice, if any
+	 */
+	static toToolChoice(body: ChatCompletionRequest): ToolChoice | undefined {
+		if (body.tool_choice || !body.function_call) {
+			return body.tool_choice;
+		}
+		if (typeof body.function_call === "object") {
+			return { type: "function", function: { name: body.function_call.name } };
+		}
+		return body.function_call;
+	}
+
+	/**
+	 * Finds the first "function" result that does not answer a preceding assistant function_call.
+	 * Results are paired by name the same way as in toToolMessages.
+	 * @param messages - The conversation messages in order, before conversion
+	 * @returns An error message naming the unmatched result, or undefined when every result matches
+	 */
+	static findUnmatchedResult(messages: ChatMessage[]): string | undefined {
+		const pendingNames: string[] = [];
+		for (const [index, msg] of messages.entries()) {
+			if (msg.role === "assistant" && msg.function_call && !msg.tool_calls) {
+				pendingNames.push(msg.function_call.name);
+			}
+			if (msg.role !== "function") {
+				continue;
+			}
+			const callIndex = pendingNames.lastIndexOf(msg.name ?? "");
+			if (callIndex < 0) {
+				return `Function message ${index} ('${msg.name ?? "unnamed"}') does not answer any preceding assistant function_call`;
+			}
+			pendingNames.splice(callIndex, 1);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Rewrites assistant function_call messages as tool calls and "function" results as tool results.
+	 * Legacy calls carry no ids, so each result is paired with the latest unanswered call of the same name.
+	 * @param messages - The conversation messages
+	 * @returns The messages using tool calls only
+	 */
+	static toToolMessages(messages: ChatMessage[]): ChatMessage[] {
+		const pendingCalls: Array<{ id: string; name: string }> = [];
+
+		return messages.map((msg) => {
+			if (msg.role === "assistant" && msg.function_call && !msg.tool_calls) {
+				const id = `call_${crypto.randomUUID()}`;
+				pendingCalls.push({ id, name: msg.function_call.name });
+				return {
+					role: "assistant",
+					content: msg.content ?? "",
+					tool_calls: [{ id, type: "function", function: msg.function_call }]
+				};
+			}
+
+			if (msg.role === "function") {
+				const callIndex = pendingCalls.map((call) => call.name).lastIndexOf(msg.name ?? "");
+				const [call] = callIndex >= 0 ? pendingCalls.splice(callIndex, 1) : [];
+				return { role: "tool", content: msg.content, tool_call_id: call?.id };
+			}
+
+			return msg;
+		});
+	}
+}
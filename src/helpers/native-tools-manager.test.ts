@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { Env, Tool } from "../types";
+import { NativeToolsManager } from "./native-tools-manager";
+
+// Native tools switched off and GEMINI_TOOLS_PRIORITY left at its native_first default
+const env = {} as Env;
+const tools: Tool[] = [{ type: "function", function: { name: "lookup", parameters: { type: "object" } } }];
+
+describe("NativeToolsManager.determineToolConfiguration", () => {
+	it("uses search alone for web_search_options without functions", () => {
+		const config = new NativeToolsManager(env).determineToolConfiguration([], { webSearch: true }, "gemini-2.5-flash");
+		expect(config).toMatchObject({ useNativeTools: true, useCustomTools: false, nativeTools: [{ google_search: {} }] });
+	});
+
+	it("combines web_search_options with functions on a model supporting mixed tools", () => {
+		const config = new NativeToolsManager(env).determineToolConfiguration(
+			tools,
+			{ webSearch: true },
+			"gemini-3-pro-preview"
+		);
+		expect(config).toMatchObject({ priority: "mixed", useNativeTools: true, useCustomTools: true, customTools: tools });
+	});
+
+	it("keeps the functions with a fallback reason on other models", () => {
+		const config = new NativeToolsManager(env).determineToolConfiguration(
+			tools,
+			{ webSearch: true },
+			"gemini-2.5-flash"
+		);
+		expect(config).toMatchObject({
+			priority: "custom",
+			useNativeTools: false,
+			useCustomTools: true,
+			customTools: tools
+		});
+		expect(config.fallbackReason).toMatch(/cannot combine native tools with function declarations/);
+	});
+
+	it("reports the cited source limit of search_context_size", () => {
+		const manager = new NativeToolsManager(env);
+		const config = manager.determineToolConfiguration(
+			[],
+			{ webSearch: true, searchContextSize: "low" },
+			"gemini-2.5-flash"
+		);
+		expect(manager.describeConfiguration(config)?.cited_source_limit).toBe(3);
+	});
+});
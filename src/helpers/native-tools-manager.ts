@@ -1,26 +1,38 @@
-import { Env, Tool } from "../types";
+import { Env, StreamChunk, Tool } from "../types";
 import {
+	GeminiCandidateUrlContextMetadata,
 	GroundingMetadata,
 	NativeTool,
+	NativeToolName,
 	NativeToolsConfiguration,
 	NativeToolsEnvSettings,
-	NativeToolsRequestParams
+	NativeToolsRequestParams,
+	ToolConfigurationMetadata
 } from "../types/native-tools";
 import { CitationsProcessor } from "./citations-processor";
-import { NATIVE_TOOLS_DEFAULTS } from "../constants";
+import { NativeToolsResponseProcessor } from "./native-tools-response-processor";
+import {
+	DEFAULT_NATIVE_TOOL_COMPATIBILITY,
+	NATIVE_TOOLS_DEFAULTS,
+	NATIVE_TOOL_COMPATIBILITY,
+	SEARCH_CONTEXT_CITED_SOURCE_LIMITS
+} from "../constants";
+import { geminiCliModels } from "../models";
 
 /**
  * Manages the integration of native Gemini tools, including Google Search,
- * URL Context. Handles tool compatibility, priority,
+ * URL Context and Code Execution. Handles tool compatibility, priority,
  * and configuration based on environment settings and request parameters.
  */
 export class NativeToolsManager {
 	private envSettings: NativeToolsEnvSettings;
 	private citationsProcessor: CitationsProcessor;
+	private responseProcessor: NativeToolsResponseProcessor;
 
 	constructor(env: Env) {
 		this.envSettings = this.parseEnvironmentSettings(env);
 		this.citationsProcessor = new CitationsProcessor(env);
+		this.responseProcessor = new NativeToolsResponseProcessor();
 	}
 
 	/**
@@ -32,16 +44,32 @@ export class NativeToolsManager {
 		requestParams: NativeToolsRequestParams,
 		modelId: string
 	): NativeToolsConfiguration {
-		// Handle disabled native tools
+		// Handle disabled native tools, web_search_options is an explicit request for search and still enables it.
+		// The client's functions were requested as well, so they are combined with search or kept instead of it
 		if (!this.envSettings.enableNativeTools) {
+			if (requestParams.webSearch && requestParams.enableSearch !== false) {
+				return this.createSearchAndUrlConfig(
+					{
+						...requestParams,
+						enableSearch: true,
+						enableUrlContext: false,
+						enableCodeExecution: false,
+						nativeToolsPriority: customTools.length > 0 ? "mixed" : requestParams.nativeToolsPriority
+					},
+					customTools,
+					modelId
+				);
+			}
 			return this.createCustomOnlyConfig(customTools);
 		}
 
-		// Handle Google Search + URL Context combination
-		const searchAndUrlRequested =
-			this.shouldEnableGoogleSearch(requestParams) || this.shouldEnableUrlContext(requestParams);
+		// Handle Google Search, URL Context and Code Execution
+		const nativeToolsRequested =
+			this.shouldEnableGoogleSearch(requestParams) ||
+			this.shouldEnableUrlContext(requestParams) ||
+			this.shouldEnableCodeExecution(requestParams);
 
-		if (searchAndUrlRequested) {
+		if (nativeToolsRequested) {
 			return this.createSearchAndUrlConfig(requestParams, customTools, modelId);
 		}
 
@@ -53,27 +81,122 @@ export class NativeToolsManager {
 	 * Creates the array of native tools to be sent to the Gemini API.
 	 */
 	public createNativeToolsArray(params: NativeToolsRequestParams, modelId: string): NativeTool[] {
-		const tools: NativeTool[] = [];
-
-		// Priority 1: Google Search + URL Context (compatible)
+		// Requested tools in priority order, used when the model cannot take all of them
+		const requested: NativeToolName[] = [];
 		if (this.shouldEnableGoogleSearch(params)) {
-			if (!this.isLegacyModel(modelId)) {
-				tools.push({ google_search: {} });
+			requested.push("google_search");
+		}
+		if (this.shouldEnableUrlContext(params)) {
+			requested.push("url_context");
+		}
+		if (this.shouldEnableCodeExecution(params)) {
+			requested.push("code_execution");
+		}
+
+		const allowedSets = NATIVE_TOOL_COMPATIBILITY[modelId] || DEFAULT_NATIVE_TOOL_COMPATIBILITY;
+		const isAllowed = (names: NativeToolName[]) =>
+			allowedSets.some((allowed) => names.every((name) => allowed.includes(name)));
+
+		const selected: NativeToolName[] = [];
+		for (const name of requested) {
+			if (isAllowed([...selected, name])) {
+				selected.push(name);
+			} else {
+				const reason = selected.length > 0 ? `cannot be combined with ${selected.join(", ")}` : "is not supported";
+				console.log(`[NativeTools] Dropping '${name}', it ${reason} on '${modelId}'`);
+			}
+		}
+
+		return selected.map((name) => ({ [name]: {} }));
+	}
+
+	/**
+	 * Summarizes a tool configuration for the response metadata.
+	 * @returns The summary, or undefined when the request uses no tools
+	 */
+	public describeConfiguration(config: NativeToolsConfiguration): ToolConfigurationMetadata | undefined {
+		const nativeTools = config.useNativeTools ? config.nativeTools.flatMap((tool) => Object.keys(tool)) : [];
+		const functionCount = config.useCustomTools ? config.customTools?.length || 0 : 0;
+		if (nativeTools.length === 0 && functionCount === 0) {
+			return undefined;
+		}
+		return {
+			mode: config.priority,
+			native_tools: nativeTools,
+			function_count: functionCount,
+			fallback_reason: config.fallbackReason,
+			cited_source_limit: config.useNativeTools ? config.citedSourceLimit : undefined
+		};
+	}
+
+	/**
+	 * Drops the search sources beyond the cited source limit, together with the grounding supports
+	 * that only cite dropped sources. Gemini has already grounded the answer on every source,
+	 * so this only trims what is reported to the client.
+	 * @param metadata - The grounding metadata of a candidate
+	 * @param limit - The number of sources to report, if limited
+	 * @returns The grounding metadata restricted to the reported sources
+	 */
+	public limitCitedSources(metadata: GroundingMetadata, limit?: number): GroundingMetadata {
+		if (limit === undefined || !metadata.groundingChunks || metadata.groundingChunks.length <= limit) {
+			return metadata;
+		}
+		const groundingSupports = metadata.groundingSupports
+			?.map((support) => ({
+				...support,
+				groundingChunkIndices: support.groundingChunkIndices?.filter((index) => index < limit)
+			}))
+			.filter((support) => support.groundingChunkIndices?.length);
+		return { ...metadata, groundingChunks: metadata.groundingChunks.slice(0, limit), groundingSupports };
+	}
+
+	/**
+	 * Builds the stream chunks reporting how a candidate was grounded: the search queries and sources,
+	 * the URL retrieval statuses and, unless disabled, the raw grounding metadata.
+	 */
+	public createGroundingChunks(
+		groundingMetadata?: GroundingMetadata,
+		urlContextMetadata?: GeminiCandidateUrlContextMetadata
+	): StreamChunk[] {
+		const chunks: StreamChunk[] = [];
+
+		if (groundingMetadata) {
+			const searchEntryPoint = this.envSettings.includeSearchEntryPoint
+				? this.citationsProcessor.getSearchEntryPoint(groundingMetadata)
+				: null;
+			chunks.push({
+				type: "native_tool",
+				data: this.responseProcessor.processGroundingMetadata(
+					groundingMetadata,
+					this.citationsProcessor.extractSourceList(groundingMetadata),
+					searchEntryPoint
+				)
+			});
+
+			if (groundingMetadata.groundingSupports?.length) {
+				// Annotations need the complete content, they are created where the content is assembled
+				chunks.push({ type: "citations", data: groundingMetadata });
+			}
+
+			if (this.envSettings.includeGroundingMetadata) {
+				// The entry point HTML is large, it is only forwarded when explicitly enabled
+				const metadata = searchEntryPoint ? groundingMetadata : { ...groundingMetadata, searchEntryPoint: undefined };
+				chunks.push({ type: "grounding_metadata", data: metadata });
 			}
 		}
 
-		if (this.shouldEnableUrlContext(params) && !this.shouldEnableGoogleSearch(params)) {
-			tools.push({ url_context: {} });
+		if (urlContextMetadata?.urlMetadata?.length) {
+			chunks.push({ type: "native_tool", data: this.responseProcessor.processUrlContextMetadata(urlContextMetadata) });
 		}
 
-		return tools;
+		return chunks;
 	}
 
 	/**
-	 * Processes text to add inline citations if enabled.
+	 * Whether code execution parts should also be rendered as fenced blocks in the content.
 	 */
-	public processCitationsInText(text: string, groundingMetadata?: GroundingMetadata): string {
-		return this.citationsProcessor.processChunk(text, groundingMetadata);
+	public shouldInlineCodeExecution(params: NativeToolsRequestParams): boolean {
+		return params.inlineCodeExecution ?? this.envSettings.inlineCodeExecution;
 	}
 
 	private createSearchAndUrlConfig(
@@ -82,6 +205,30 @@ export class NativeToolsManager {
 		modelId: string
 	): NativeToolsConfiguration {
 		const nativeTools = this.createNativeToolsArray(requestParams, modelId);
+		const citedSourceLimit =
+			requestParams.searchContextSize && nativeTools.some((tool) => tool.google_search)
+				? SEARCH_CONTEXT_CITED_SOURCE_LIMITS[requestParams.searchContextSize]
+				: undefined;
+
+		const mixedRequested = requestParams.nativeToolsPriority === "mixed" || this.envSettings.priority === "mixed";
+		if (mixedRequested && customTools.length > 0 && nativeTools.length > 0) {
+			if (geminiCliModels[modelId]?.supportsMixedTools) {
+				return {
+					useNativeTools: true,
+					useCustomTools: true,
+					nativeTools,
+					customTools,
+					priority: "mixed",
+					toolType: "mixed",
+					citedSourceLimit
+				};
+			}
+			// Fallback policy: the client's functions are kept because its flow may depend on them
+			return {
+				...this.createCustomOnlyConfig(customTools),
+				fallbackReason: `Model '${modelId}' cannot combine native tools with function declarations, native tools were dropped`
+			};
+		}
 
 		if (this.envSettings.priority === "native_first" || requestParams.nativeToolsPriority === "native") {
 			return {
@@ -89,7 +236,8 @@ export class NativeToolsManager {
 				useCustomTools: false,
 				nativeTools,
 				priority: "native",
-				toolType: "search_and_url"
+				toolType: "search_and_url",
+				citedSourceLimit
 			};
 		} else if (this.envSettings.priority === "custom_first" && customTools.length > 0) {
 			return this.createCustomOnlyConfig(customTools);
@@ -100,7 +248,8 @@ export class NativeToolsManager {
 				useCustomTools: false,
 				nativeTools,
 				priority: "native",
-				toolType: "search_and_url"
+				toolType: "search_and_url",
+				citedSourceLimit
 			};
 		}
 	}
@@ -128,8 +277,10 @@ export class NativeToolsManager {
 		return this.envSettings.enableUrlContext;
 	}
 
-	private isLegacyModel(modelId: string): boolean {
-		return modelId.includes("gemini-1.5");
+	private shouldEnableCodeExecution(params: NativeToolsRequestParams): boolean {
+		if (params.enableCodeExecution === false) return false;
+		if (params.enableCodeExecution === true) return true;
+		return this.envSettings.enableCodeExecution;
 	}
 
 	private parseEnvironmentSettings(env: Env): NativeToolsEnvSettings {
@@ -137,6 +288,8 @@ export class NativeToolsManager {
 			enableNativeTools: env.ENABLE_GEMINI_NATIVE_TOOLS === "true",
 			enableGoogleSearch: env.ENABLE_GOOGLE_SEARCH === "true",
 			enableUrlContext: env.ENABLE_URL_CONTEXT === "true",
+			enableCodeExecution: env.ENABLE_CODE_EXECUTION === "true",
+			inlineCodeExecution: env.INLINE_CODE_EXECUTION === "true",
 			priority:
 				(env.GEMINI_TOOLS_PRIORITY as NativeToolsEnvSettings["priority"]) ||
 				NATIVE_TOOLS_DEFAULTS.GEMINI_TOOLS_PRIORITY,
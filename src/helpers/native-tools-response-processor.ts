@@ -1,9 +1,18 @@
-import { GeminiUrlContextMetadata, GroundingMetadata, NativeToolResponse } from "../types/native-tools";
+import {
+	CitationSource,
+	GeminiCandidateUrlContextMetadata,
+	GeminiCodeExecutionResult,
+	GeminiExecutableCode,
+	GeminiUrlContextMetadata,
+	GroundingMetadata,
+	NativeToolResponse,
+	SearchToolResult
+} from "../types/native-tools";
 import { GeminiPart } from "../gemini-client";
 
 /**
  * Processes response parts from the Gemini API that are related to native tools.
- * This includes grounding metadata, and URL context.
+ * This includes grounding metadata, URL context and code execution.
  */
 export class NativeToolsResponseProcessor {
 	/**
@@ -19,17 +28,74 @@ export class NativeToolsResponseProcessor {
 			};
 		}
 
+		// Handle code generated and run by the code execution tool
+		if (part.executableCode) {
+			return {
+				type: "code_execution",
+				data: part.executableCode
+			};
+		}
+
+		if (part.codeExecutionResult) {
+			return {
+				type: "code_execution_result",
+				data: part.codeExecutionResult
+			};
+		}
+
 		return null;
 	}
 
 	/**
-	 * Processes grounding metadata from the Gemini API response.
+	 * Renders a code execution part as a fenced markdown block for clients that ignore native tool output.
 	 */
-	public processGroundingMetadata(metadata: GroundingMetadata): NativeToolResponse {
+	public formatCodeExecutionAsMarkdown(response: NativeToolResponse): string | null {
+		if (response.type === "code_execution") {
+			const { language, code } = response.data as GeminiExecutableCode;
+			return `\n\`\`\`${language.toLowerCase()}\n${code}\n\`\`\`\n`;
+		}
+		if (response.type === "code_execution_result") {
+			const { output } = response.data as GeminiCodeExecutionResult;
+			return output ? `\n\`\`\`output\n${output.replace(/\n$/, "")}\n\`\`\`\n` : null;
+		}
+		return null;
+	}
+
+	/**
+	 * Processes grounding metadata from the Gemini API response into the search queries and sources.
+	 * @param metadata - The candidate's grounding metadata
+	 * @param sources - The numbered source list extracted from the grounding chunks
+	 * @param searchEntryPoint - The rendered search entry point, when it should be forwarded
+	 */
+	public processGroundingMetadata(
+		metadata: GroundingMetadata,
+		sources: CitationSource[],
+		searchEntryPoint?: string | null
+	): NativeToolResponse {
+		const result: SearchToolResult = {
+			queries: metadata.webSearchQueries || [],
+			sources,
+			search_entry_point: searchEntryPoint || undefined
+		};
 		return {
 			type: "search",
-			data: metadata.groundingChunks || [],
-			metadata: metadata
+			data: result
+		};
+	}
+
+	/**
+	 * Processes the URL context metadata of a candidate into the retrieval status of each URL.
+	 */
+	public processUrlContextMetadata(metadata: GeminiCandidateUrlContextMetadata): NativeToolResponse {
+		const data: GeminiUrlContextMetadata = {
+			url_metadata: (metadata.urlMetadata || []).map((entry) => ({
+				retrieved_url: entry.retrievedUrl,
+				url_retrieval_status: entry.urlRetrievalStatus
+			}))
+		};
+		return {
+			type: "url_context",
+			data
 		};
 	}
 }
@@ -0,0 +1,153 @@
+import { ChatMessage, MessageContent, ResponseFormat, Tool, ToolChoice } from "../types";
+import {
+	ResponsesInputContent,
+	ResponsesInputItem,
+	ResponsesRequest,
+	ResponsesTextFormat,
+	ResponsesTool,
+	ResponsesToolChoice
+} from "../types/responses";
+
+/**
+ * Helper class to translate OpenAI Responses API requests into the
+ * chat message format consumed by GeminiApiClient.
+ */
+export class ResponsesInputConverter {
+	/**
+	 * Converts the Responses `instructions` and `input` fields into a system prompt and chat messages.
+	 * System and developer input messages are appended to the instructions in order.
+	 * @param request - The Responses API request
+	 * @returns The system prompt and the remaining conversation as chat messages
+	 */
+	static toChatMessages(request: ResponsesRequest): { systemPrompt: string; messages: ChatMessage[] } {
+		const systemParts: string[] = request.instructions ? [request.instructions] : [];
+		const messages: ChatMessage[] = [];
+
+		if (typeof request.input === "string") {
+			return { systemPrompt: systemParts.join("\n\n"), messages: [{ role: "user", content: request.input }] };
+		}
+
+		for (const item of request.input || []) {
+			this.appendItem(item, systemParts, messages);
+		}
+
+		return { systemPrompt: systemParts.join("\n\n"), messages };
+	}
+
+	/**
+	 * Converts Responses function tools to chat tools and detects the web search tool.
+	 * @param tools - The Responses API tools
+	 * @returns Chat-style function tools and whether web search was requested
+	 */
+	static toChatTools(tools: ResponsesTool[] = []): { tools: Tool[] | undefined; enableSearch: boolean | undefined } {
+		const functionTools: Tool[] = [];
+		let enableSearch: boolean | undefined;
+
+		for (const tool of tools) {
+			if (tool.type === "function") {
+				functionTools.push({
+					type: "function",
+					function: {
+						name: tool.name,
+						description: tool.description,
+						parameters: tool.parameters
+					}
+				});
+			} else if (tool.type === "web_search" || tool.type === "web_search_preview") {
+				enableSearch = true;
+			}
+		}
+
+		return { tools: functionTools.length > 0 ? functionTools : undefined, enableSearch };
+	}
+
+	/**
+	 * Converts a Responses tool choice into the chat tool choice format.
+	 * @param toolChoice - The Responses API tool choice
+	 * @returns The equivalent chat tool choice
+	 */
+	static toChatToolChoice(toolChoice?: ResponsesToolChoice): ToolChoice | undefined {
+		if (!toolChoice) {
+			return undefined;
+		}
+		if (typeof toolChoice === "object") {
+			return { type: "function", function: { name: toolChoice.name } };
+		}
+		return toolChoice;
+	}
+
+	/**
+	 * Converts a Responses text format into the chat response format.
+	 * @param format - The Responses API text format
+	 * @returns The equivalent chat response format
+	 */
+	static toResponseFormat(format?: ResponsesTextFormat): ResponseFormat | undefined {
+		if (format?.type !== "json_schema") {
+			return format;
+		}
+		return {
+			type: "json_schema",
+			json_schema: { name: format.name, description: format.description, schema: format.schema, strict: format.strict }
+		};
+	}
+
+	private static appendItem(item: ResponsesInputItem, systemParts: string[], messages: ChatMessage[]): void {
+		switch (item.type) {
+			case "function_call": {
+				const toolCall = {
+					id: item.call_id,
+					type: "function" as const,
+					function: { name: item.name, arguments: item.arguments || "{}" }
+				};
+				const last = messages[messages.length - 1];
+				if (last?.role === "assistant") {
+					last.content = this.flattenText(last.content);
+					last.tool_calls = [...(last.tool_calls || []), toolCall];
+				} else {
+					messages.push({ role: "assistant", content: "", tool_calls: [toolCall] });
+				}
+				return;
+			}
+			case "function_call_output":
+				messages.push({
+					role: "tool",
+					tool_call_id: item.call_id,
+					content: typeof item.output === "string" ? item.output : this.flattenText(this.toContent(item.output))
+				});
+				return;
+			case "reasoning":
+				// Reasoning items cannot be replayed to Gemini
+				return;
+			default: {
+				const content = typeof item.content === "string" ? item.content : this.toContent(item.content);
+				if (item.role === "system" || item.role === "developer") {
+					systemParts.push(this.flattenText(content));
+				} else {
+					messages.push({ role: item.role, content });
+				}
+			}
+		}
+	}
+
+	private static toContent(parts: ResponsesInputContent[]): MessageContent[] {
+		const content: MessageContent[] = [];
+		for (const part of parts) {
+			if (part.type === "input_text" || part.type === "output_text") {
+				content.push({ type: "text", text: part.text });
+			} else if (part.type === "input_image" && part.image_url) {
+				content.push({ type: "image_url", image_url: { url: part.image_url, detail: part.detail } });
+			}
+		}
+		return content;
+	}
+
+	private static flattenText(content: string | MessageContent[]): string {
+		if (typeof content === "string") {
+			return content;
+		}
+		return content
+			.filter((part) => part.type === "text")
+			.map((part) => part.text || "")
+			.join("\n");
+	}
+}
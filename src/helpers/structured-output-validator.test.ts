@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { StreamChunk } from "../types";
+import { StructuredOutputValidator } from "./structured-output-validator";
+
+const schema = { type: "object", properties: { answer: { type: "number" } }, required: ["answer"] };
+
+// Replays one recorded attempt per call
+function attempts(...recorded: StreamChunk[][]): () => AsyncGenerator<StreamChunk> {
+	let attempt = 0;
+	return async function* () {
+		yield* recorded[attempt++];
+	};
+}
+
+async function collect(stream: AsyncGenerator<StreamChunk>): Promise<StreamChunk[]> {
+	const chunks: StreamChunk[] = [];
+	for await (const chunk of stream) {
+		chunks.push(chunk);
+	}
+	return chunks;
+}
+
+describe("StructuredOutputValidator.streamValidated", () => {
+	it("replays only the accepted attempt, in order, with the usage of the discarded one", async () => {
+		const createStream = attempts(
+			[
+				{ type: "real_thinking", data: "first try" },
+				{ type: "text", data: '{"answer": "forty' },
+				{ type: "text", data: '-two"}' },
+				{ type: "finish", data: { reason: "STOP" } },
+				{ type: "usage", data: { inputTokens: 10, outputTokens: 4 } }
+			],
+			[
+				{ type: "real_thinking", data: "second try" },
+				{ type: "text", data: '{"answer": ' },
+				{ type: "text", data: "42}" },
+				{ type: "finish", data: { reason: "STOP" } },
+				{ type: "usage", data: { inputTokens: 10, outputTokens: 5 } }
+			]
+		);
+
+		const chunks = await collect(StructuredOutputValidator.streamValidated(createStream, schema));
+
+		expect(chunks.map((chunk) => chunk.type)).toEqual(["real_thinking", "text", "text", "finish", "usage"]);
+		expect(chunks[0].data).toBe("second try");
+		expect(chunks[4].data).toMatchObject({ inputTokens: 20, outputTokens: 9 });
+	});
+
+	it("sends nothing when no attempt conforms", async () => {
+		const invalid: StreamChunk[] = [
+			{ type: "text", data: "not json" },
+			{ type: "finish", data: { reason: "STOP" } }
+		];
+		const stream = StructuredOutputValidator.streamValidated(attempts(invalid, invalid), schema);
+
+		await expect(stream.next()).rejects.toThrow("Model output does not match the response schema");
+	});
+});
@@ -0,0 +1,107 @@
+import { STRICT_SCHEMA_MAX_RETRIES } from "../constants";
+import { ResponseFormat, StreamChunk, UsageData } from "../types";
+import { JsonSchemaValidator } from "./json-schema-validator";
+import { UsageMapper } from "./usage-mapper";
+
+/**
+ * Helper class enforcing strict json_schema response formats.
+ * Gemini's responseSchema only covers a subset of JSON Schema, so the final
+ * text is validated against the original schema and regenerated when it does not conform.
+ */
+export class StructuredOutputValidator {
+	/**
+	 * Returns the schema to enforce when the response format requests strict validation.
+	 * @param format - The requested response format
+	 * @returns The JSON Schema to validate against, or undefined when validation is not requested
+	 */
+	static getStrictSchema(format?: ResponseFormat): Record<string, unknown> | undefined {
+		if (format?.type === "json_schema" && format.json_schema?.strict === true) {
+			return format.json_schema.schema;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Parses the model output as JSON and validates it against the schema.
+	 * @param text - The complete text produced by the model
+	 * @param schema - The JSON Schema the output must conform to
+	 * @returns A list of validation errors, empty when the output conforms
+	 */
+	static validateOutput(text: string, schema: Record<string, unknown>): string[] {
+		let value: unknown;
+		try {
+			value = JSON.parse(text);
+		} catch {
+			return ["output is not valid JSON"];
+		}
+		return JsonSchemaValidator.validate(value, schema);
+	}
+
+	/**
+	 * Builds the error raised when the output still does not conform after all retries.
+	 */
+	static createValidationError(errors: string[]): Error {
+		return new Error(`Model output does not match the response schema: ${errors.join("; ")}`);
+	}
+
+	/**
+	 * Wraps a content stream so an attempt is only released once its text has been validated.
+	 * Every chunk of an attempt is buffered and replayed in order when it conforms, so nothing is sent
+	 * before the output is known to be valid. The tokens of discarded attempts are added to the usage
+	 * of the attempt that is sent. Choices that call tools are not validated.
+	 * @param createStream - Factory starting a new generation attempt
+	 * @param schema - The JSON Schema the output must conform to
+	 */
+	static async *streamValidated(
+		createStream: () => AsyncGenerator<StreamChunk>,
+		schema: Record<string, unknown>
+	): AsyncGenerator<StreamChunk> {
+		let discardedUsage: UsageData | undefined;
+		for (let attempt = 0; ; attempt++) {
+			const buffered: StreamChunk[] = [];
+			const texts = new Map<number, string>();
+			const toolCallers = new Set<number>();
+			let attemptUsage: UsageData | undefined;
+
+			for await (const chunk of createStream()) {
+				const index = chunk.index ?? 0;
+				if (chunk.type === "text" && typeof chunk.data === "string") {
+					texts.set(index, (texts.get(index) ?? "") + chunk.data);
+				} else if (chunk.type === "tool_code") {
+					toolCallers.add(index);
+				} else if (chunk.type === "usage" && chunk.data && typeof chunk.data === "object") {
+					// Gemini reports the usage of the attempt so far, the last report is the total
+					attemptUsage = chunk.data as UsageData;
+				}
+				buffered.push(chunk);
+			}
+
+			toolCallers.forEach((index) => texts.delete(index));
+			if (texts.size === 0 && toolCallers.size === 0) {
+				texts.set(0, "");
+			}
+			const errors = [...texts.entries()].flatMap(([index, text]) =>
+				this.validateOutput(text, schema).map((error) => (texts.size > 1 ? `choice ${index}: ${error}` : error))
+			);
+			if (errors.length === 0) {
+				for (const chunk of buffered) {
+					yield chunk.type === "usage" && discardedUsage
+						? { ...chunk, data: UsageMapper.add(discardedUsage, chunk.data as UsageData) }
+						: chunk;
+				}
+				if (discardedUsage && !attemptUsage) {
+					yield { type: "usage", data: discardedUsage };
+				}
+				return;
+			}
+
+			if (attempt >= STRICT_SCHEMA_MAX_RETRIES) {
+				throw this.createValidationError(errors);
+			}
+			if (attemptUsage) {
+				discardedUsage = UsageMapper.add(discardedUsage, attemptUsage);
+			}
+			console.warn(`[StructuredOutput] Output failed schema validation, retrying: ${errors.join("; ")}`);
+		}
+	}
+}
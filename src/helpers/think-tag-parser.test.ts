@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { ThinkSegment, ThinkTagParser } from "./think-tag-parser";
+
+// Feeds a recorded chunk sequence through a parser and merges the segments the way a client sees them
+function parse(chunks: string[]): ThinkSegment[] {
+	const parser = new ThinkTagParser();
+	const segments = [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.end()];
+	return segments.reduce<ThinkSegment[]>((merged, segment) => {
+		const last = merged[merged.length - 1];
+		if (last && last.thinking === segment.thinking) {
+			last.text += segment.text;
+		} else {
+			merged.push({ ...segment });
+		}
+		return merged;
+	}, []);
+}
+
+describe("ThinkTagParser", () => {
+	it("separates a block from the answer", () => {
+		expect(parse(["<think>plan</think>\n\nAnswer."])).toEqual([
+			{ thinking: true, text: "plan" },
+			{ thinking: false, text: "Answer." }
+		]);
+	});
+
+	it("handles tags split across chunks", () => {
+		expect(parse(["<thi", "nk>step one", " and two</th", "ink>", "\n", "Done"])).toEqual([
+			{ thinking: true, text: "step one and two" },
+			{ thinking: false, text: "Done" }
+		]);
+	});
+
+	it("holds back a fragment only until it cannot become a tag", () => {
+		const parser = new ThinkTagParser();
+		expect(parser.push("Hello <th")).toEqual([{ thinking: false, text: "Hello " }]);
+		expect(parser.push("ere")).toEqual([{ thinking: false, text: "<there" }]);
+	});
+
+	it("folds nested blocks into the outermost one", () => {
+		expect(parse(["<think>outer <think>inner</think> still", " outer</think>Answer"])).toEqual([
+			{ thinking: true, text: "outer inner still outer" },
+			{ thinking: false, text: "Answer" }
+		]);
+	});
+
+	it("reports a block left open at the end of the stream as thinking", () => {
+		expect(parse(["Intro ", "<think>unfinished", " thought</thi"])).toEqual([
+			{ thinking: false, text: "Intro " },
+			{ thinking: true, text: "unfinished thought" }
+		]);
+	});
+
+	it("keeps an unfinished opening tag at the end of the answer as text", () => {
+		expect(parse(["Answer <thi"])).toEqual([{ thinking: false, text: "Answer <thi" }]);
+	});
+
+	it("keeps a stray closing tag in the answer text", () => {
+		expect(parse(["Use </think> to close", " a block"])).toEqual([
+			{ thinking: false, text: "Use </think> to close a block" }
+		]);
+	});
+
+	it("keeps a bare < that is not a tag", () => {
+		expect(parse(["x<", "y"])).toEqual([{ thinking: false, text: "x<y" }]);
+		expect(parse(["a < b", " and c<"])).toEqual([{ thinking: false, text: "a < b and c<" }]);
+	});
+
+	it("reopens thinking for a later block", () => {
+		expect(parse(["<think>a</think>b", "<think>c</think>d"])).toEqual([
+			{ thinking: true, text: "a" },
+			{ thinking: false, text: "b" },
+			{ thinking: true, text: "c" },
+			{ thinking: false, text: "d" }
+		]);
+	});
+});
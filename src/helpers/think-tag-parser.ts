@@ -0,0 +1,91 @@
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+export interface ThinkSegment {
+	thinking: boolean;
+	text: string;
+}
+
+/**
+ * Incremental parser separating <think>…</think> blocks from the answer text of one candidate.
+ * Tags may be split across chunks, so a trailing fragment that could still become a tag is held
+ * back until the next chunk. Nested blocks are folded into the outermost one, and a block that is
+ * still open when the stream ends is reported as thinking.
+ */
+export class ThinkTagParser {
+	private pending = ""; // Trailing text that may be the start of a tag
+	private depth = 0;
+	private trimAnswer = false; // Whitespace separating a block from the answer is dropped
+
+	/**
+	 * Parses the next piece of text.
+	 * @param text - Text from the model
+	 * @returns The thinking and answer segments that are complete, in order
+	 */
+	push(text: string): ThinkSegment[] {
+		const segments: ThinkSegment[] = [];
+		let input = this.pending + text;
+		this.pending = "";
+
+		while (input.length > 0) {
+			const tagIndex = input.indexOf("<");
+			if (tagIndex < 0) {
+				this.append(segments, input);
+				break;
+			}
+			this.append(segments, input.slice(0, tagIndex));
+			input = input.slice(tagIndex);
+
+			if (input.startsWith(OPEN_TAG)) {
+				this.depth++;
+				input = input.slice(OPEN_TAG.length);
+			} else if (input.startsWith(CLOSE_TAG) && this.depth > 0) {
+				this.depth--;
+				this.trimAnswer = this.depth === 0;
+				input = input.slice(CLOSE_TAG.length);
+			} else if (input.length < CLOSE_TAG.length && (OPEN_TAG.startsWith(input) || CLOSE_TAG.startsWith(input))) {
+				this.pending = input;
+				break;
+			} else {
+				// Not a tag, a stray closing tag outside a block is kept as text as well
+				this.append(segments, "<");
+				input = input.slice(1);
+			}
+		}
+		return segments;
+	}
+
+	/**
+	 * Ends the stream, releasing a held back fragment as plain text of the current block.
+	 * An unfinished closing tag of an open block is dropped, it only cut the block short.
+	 * @returns The remaining segments
+	 */
+	end(): ThinkSegment[] {
+		const segments: ThinkSegment[] = [];
+		const isUnfinishedClose = this.depth > 0 && this.pending.startsWith("</");
+		if (!isUnfinishedClose) {
+			this.append(segments, this.pending);
+		}
+		this.pending = "";
+		this.depth = 0;
+		return segments;
+	}
+
+	// Adds text to the last segment when it is of the same kind, so callers get as few segments as possible
+	private append(segments: ThinkSegment[], text: string): void {
+		const thinking = this.depth > 0;
+		if (!thinking && this.trimAnswer) {
+			text = text.trimStart();
+			this.trimAnswer = text.length === 0;
+		}
+		if (!text) {
+			return;
+		}
+		const last = segments[segments.length - 1];
+		if (last && last.thinking === thinking) {
+			last.text += text;
+		} else {
+			segments.push({ thinking, text });
+		}
+	}
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { Env } from "../types";
+import { ThinkingDisplayResolver } from "./thinking-display-resolver";
+
+const env = { THINKING_OVERRIDE_CLIENTS: "openwebui, My-App" } as Env;
+
+describe("ThinkingDisplayResolver.canOverride", () => {
+	it("matches the X-Client-Id ignoring case", () => {
+		expect(ThinkingDisplayResolver.canOverride(env, { id: "my-app" })).toBe(true);
+	});
+
+	it("does not match the User-Agent", () => {
+		const { client } = ThinkingDisplayResolver.readRequest({}, (name) =>
+			name === "User-Agent" ? "OpenWebUI/0.6" : undefined
+		);
+		expect(ThinkingDisplayResolver.canOverride(env, client)).toBe(false);
+	});
+
+	it("ignores the override of a client that is not listed", () => {
+		const display = ThinkingDisplayResolver.resolve(env, { mode: "raw" }, { id: "other" });
+		expect(display.mode).toBe("off");
+	});
+});
@@ -0,0 +1,114 @@
+import { THINKING_FORMATS, THINKING_MODES } from "../constants";
+import { Env, ThinkingDisplay, ThinkingFormat, ThinkingMode } from "../types";
+
+export interface ThinkingDisplayRequest {
+	mode?: string;
+	format?: string;
+}
+
+export interface ThinkingClient {
+	id?: string; // X-Client-Id header
+}
+
+/**
+ * Helper class deciding how the thoughts of a request are returned.
+ * The environment provides the defaults, clients listed in THINKING_OVERRIDE_CLIENTS may override
+ * them per request. Clients share one API key, so they are told apart by X-Client-Id only.
+ */
+export class ThinkingDisplayResolver {
+	/**
+	 * Creates the display configured by ENABLE_REAL_THINKING, ENABLE_FAKE_THINKING and STREAM_THINKING_AS_CONTENT.
+	 * @param env - The worker environment
+	 * @returns The default thinking display
+	 */
+	static fromEnv(env: Env): ThinkingDisplay {
+		return {
+			mode: env.ENABLE_REAL_THINKING === "true" ? "raw" : "off",
+			format: env.STREAM_THINKING_AS_CONTENT === "true" ? "think_tags" : "reasoning_content",
+			fakeThinking: env.ENABLE_FAKE_THINKING === "true"
+		};
+	}
+
+	/**
+	 * Reads the requested mode and format and the identity of the client.
+	 * The thinking_mode and thinking_format body fields take precedence over the X-Thinking-* headers.
+	 * @param body - The request body
+	 * @param header - Returns a request header by name
+	 * @returns The requested values and the client identity
+	 */
+	static readRequest(
+		body: { thinking_mode?: string; thinking_format?: string },
+		header: (name: string) => string | undefined
+	): { requested: ThinkingDisplayRequest; client: ThinkingClient } {
+		return {
+			requested: {
+				mode: body.thinking_mode ?? header("X-Thinking-Mode"),
+				format: body.thinking_format ?? header("X-Thinking-Format")
+			},
+			client: { id: header("X-Client-Id") }
+		};
+	}
+
+	/**
+	 * Checks the requested mode and format.
+	 * @param requested - The values from the request body or headers
+	 * @param formats - The formats the endpoint can return thoughts in
+	 * @returns An error message, or undefined when the values are valid
+	 */
+	static validate(requested: ThinkingDisplayRequest, formats: ThinkingFormat[] = THINKING_FORMATS): string | undefined {
+		if (requested.mode !== undefined && !THINKING_MODES.includes(requested.mode as ThinkingMode)) {
+			return `thinking_mode must be one of ${THINKING_MODES.join(", ")}`;
+		}
+		if (requested.format !== undefined && !formats.includes(requested.format as ThinkingFormat)) {
+			return `thinking_format must be one of ${formats.join(", ")}`;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Resolves the thinking display of a request, overrides from clients that are not allowed are ignored.
+	 * @param env - The worker environment
+	 * @param requested - The validated values from the request body or headers
+	 * @param client - The identity of the calling client
+	 * @returns The thinking display to apply
+	 */
+	static resolve(env: Env, requested: ThinkingDisplayRequest, client: ThinkingClient): ThinkingDisplay {
+		const display = this.fromEnv(env);
+		if (requested.mode === undefined && requested.format === undefined) {
+			return display;
+		}
+		if (!this.canOverride(env, client)) {
+			console.log(
+				`[ThinkingDisplay] Ignoring thinking override from client '${client.id || "unknown"}': not in THINKING_OVERRIDE_CLIENTS`
+			);
+			return display;
+		}
+
+		if (requested.mode !== undefined) {
+			// The client chose what to see, so fake thinking is not mixed in
+			display.mode = requested.mode as ThinkingMode;
+			display.fakeThinking = false;
+		}
+		if (requested.format !== undefined) {
+			display.format = requested.format as ThinkingFormat;
+		}
+		return display;
+	}
+
+	/**
+	 * Checks the client against THINKING_OVERRIDE_CLIENTS. An entry matches the X-Client-Id header
+	 * case-insensitively, and "*" allows every client. The User-Agent is not matched.
+	 * @param env - The worker environment
+	 * @param client - The identity of the calling client
+	 * @returns Whether the client may override the thinking display
+	 */
+	static canOverride(env: Env, client: ThinkingClient): boolean {
+		const entries = (env.THINKING_OVERRIDE_CLIENTS || "")
+			.split(",")
+			.map((entry) => entry.trim().toLowerCase())
+			.filter((entry) => entry.length > 0);
+		const id = client.id?.trim().toLowerCase();
+
+		return entries.some((entry) => entry === "*" || entry === id);
+	}
+}
@@ -0,0 +1,68 @@
+import { KV_THOUGHT_SIGNATURE_PREFIX, THOUGHT_SIGNATURE_TTL } from "../config";
+import { ChatMessage, Env } from "../types";
+
+/**
+ * Keeps the thought signatures Gemini attaches to function calls.
+ * Thinking models expect them back with the calls in the conversation history, so they are sent to the
+ * client on every tool call and also saved in KV by tool call id, for clients that drop unknown fields.
+ */
+export class ThoughtSignatureStore {
+	private env: Env;
+
+	constructor(env: Env) {
+		this.env = env;
+	}
+
+	/**
+	 * Saves the signature of a function call.
+	 * @param toolCallId - The tool call id sent to the client
+	 * @param signature - The opaque thought signature
+	 */
+	async save(toolCallId: string, signature: string): Promise<void> {
+		try {
+			await this.env.GEMINI_CLI_KV.put(`${KV_THOUGHT_SIGNATURE_PREFIX}${toolCallId}`, signature, {
+				expirationTtl: THOUGHT_SIGNATURE_TTL
+			});
+		} catch (kvError) {
+			console.log(`[ThoughtSignatures] Failed to save the signature of ${toolCallId}:`, kvError);
+		}
+	}
+
+	/**
+	 * Resolves the signature of every assistant tool call in the conversation.
+	 * A signature echoed by the client takes precedence, missing ones are looked up in KV.
+	 * @param messages - The conversation messages
+	 * @returns A map from tool call id to thought signature
+	 */
+	async resolve(messages: ChatMessage[]): Promise<Map<string, string>> {
+		const signatures = new Map<string, string>();
+		const missing: string[] = [];
+
+		for (const msg of messages) {
+			if (msg.role !== "assistant") {
+				continue;
+			}
+			for (const toolCall of msg.tool_calls || []) {
+				if (toolCall.thought_signature) {
+					signatures.set(toolCall.id, toolCall.thought_signature);
+				} else {
+					missing.push(toolCall.id);
+				}
+			}
+		}
+
+		await Promise.all(
+			missing.map(async (id) => {
+				try {
+					const signature = await this.env.GEMINI_CLI_KV.get(`${KV_THOUGHT_SIGNATURE_PREFIX}${id}`);
+					if (signature) {
+						signatures.set(id, signature);
+					}
+				} catch (kvError) {
+					console.log(`[ThoughtSignatures] Failed to look up the signature of ${id}:`, kvError);
+				}
+			})
+		);
+		return signatures;
+	}
+}
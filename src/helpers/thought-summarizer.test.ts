@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { ThoughtSummarizer } from "./thought-summarizer";
+
+// Feeds a recorded sequence of thought parts through a summarizer and returns everything it released
+function summarize(parts: string[]): string {
+	const summarizer = new ThoughtSummarizer();
+	return parts.map((part) => summarizer.push(part)).join("") + summarizer.end();
+}
+
+describe("ThoughtSummarizer", () => {
+	it("keeps only the heading lines", () => {
+		expect(summarize(["**Planning the answer**\n\nI'm considering details.\n**Checking facts**\n"])).toBe(
+			"**Planning the answer**\n\n**Checking facts**\n\n"
+		);
+	});
+
+	it("finds a heading split across parts", () => {
+		expect(summarize(["**Plan", "ning the answer**\n\nbody"])).toBe("**Planning the answer**\n\n");
+	});
+
+	it("releases a heading only once its line is complete", () => {
+		const summarizer = new ThoughtSummarizer();
+		expect(summarizer.push("**Checking")).toBe("");
+		expect(summarizer.push(" facts**")).toBe("");
+		expect(summarizer.push("\nThe sources agree.")).toBe("**Checking facts**\n\n");
+	});
+
+	it("releases a heading ending the thought without a line break", () => {
+		expect(summarize(["Body text.\n**Wrapping", " up**"])).toBe("**Wrapping up**\n\n");
+	});
+
+	it("ignores bold text inside a paragraph", () => {
+		expect(summarize(["This is **important** to note.\n"])).toBe("");
+	});
+});
@@ -0,0 +1,40 @@
+// Gemini thought summaries open every step with a bold title on its own line
+const HEADING_LINE = /^\s*\*\*(.+?)\*\*\s*$/;
+
+/**
+ * Incremental reducer of the thoughts of one candidate to their headings.
+ * A heading may be split across streamed thought parts, so the last unfinished line is held back
+ * until its line break arrives or the thought ends.
+ */
+export class ThoughtSummarizer {
+	private pending = ""; // Unfinished last line
+
+	/**
+	 * Adds thought text.
+	 * @param text - Thought text from Gemini
+	 * @returns The headings of the lines completed by this text, possibly empty
+	 */
+	push(text: string): string {
+		const lines = (this.pending + text).split("\n");
+		this.pending = lines.pop() ?? "";
+		return this.summarize(lines);
+	}
+
+	/**
+	 * Ends the thought, the held back line is checked as a complete one.
+	 * @returns The heading of the held back line, possibly empty
+	 */
+	end(): string {
+		const line = this.pending;
+		this.pending = "";
+		return this.summarize([line]);
+	}
+
+	private summarize(lines: string[]): string {
+		return lines
+			.map((line) => HEADING_LINE.exec(line)?.[1].trim())
+			.filter((heading): heading is string => !!heading)
+			.map((heading) => `**${heading}**\n\n`)
+			.join("");
+	}
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { StreamChunk, Tool } from "../types";
+import { ToolArgumentValidator } from "./tool-argument-validator";
+
+const tools: Tool[] = [
+	{
+		type: "function",
+		function: {
+			name: "lookup",
+			parameters: {
+				type: "object",
+				properties: { id: { type: "string", pattern: "^[a-z\\_]+$" } },
+				required: ["id"]
+			}
+		}
+	}
+];
+
+// Replays one recorded attempt per call
+function attempts(...recorded: StreamChunk[][]): () => AsyncGenerator<StreamChunk> {
+	let attempt = 0;
+	return async function* () {
+		yield* recorded[attempt++];
+	};
+}
+
+async function collect(stream: AsyncGenerator<StreamChunk>): Promise<StreamChunk[]> {
+	const chunks: StreamChunk[] = [];
+	for await (const chunk of stream) {
+		chunks.push(chunk);
+	}
+	return chunks;
+}
+
+describe("ToolArgumentValidator", () => {
+	it("validates arguments against patterns written for the non-unicode flavor", () => {
+		const call = ToolArgumentValidator.repairCall({ name: "lookup", args: { id: "a_b" } }, tools);
+		expect(call.validationErrors).toBeUndefined();
+	});
+
+	it("adds the usage of a discarded attempt to the reported usage", async () => {
+		const createStream = attempts(
+			[
+				{ type: "tool_code", data: { name: "lookup", args: {} } },
+				{ type: "usage", data: { inputTokens: 10, outputTokens: 4 } },
+				{ type: "finish", data: { reason: "STOP" } }
+			],
+			[
+				{ type: "tool_code", data: { name: "lookup", args: { id: "ok" } } },
+				{ type: "usage", data: { inputTokens: 10, outputTokens: 5 } },
+				{ type: "finish", data: { reason: "STOP" } }
+			]
+		);
+
+		const chunks = await collect(ToolArgumentValidator.streamValidated(createStream, tools, "retry"));
+
+		expect(chunks.map((chunk) => chunk.type)).toEqual(["tool_code", "usage", "finish"]);
+		expect(chunks[1].data).toMatchObject({ inputTokens: 20, outputTokens: 9 });
+	});
+});
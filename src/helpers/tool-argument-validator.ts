@@ -0,0 +1,168 @@
+import { TOOL_ARGUMENT_MAX_RETRIES } from "../constants";
+import { Env, GeminiFunctionCall, StreamChunk, Tool, ToolArgumentValidationMode, UsageData } from "../types";
+import { JsonSchemaValidator } from "./json-schema-validator";
+import { UsageMapper } from "./usage-mapper";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Helper class checking tool call arguments against the parameters schema declared by the client.
+ * Simple mismatches are coerced in place, calls that stay invalid are either regenerated
+ * or marked with their validation errors.
+ */
+export class ToolArgumentValidator {
+	/**
+	 * Determines the validation mode, the request setting takes precedence over the environment default.
+	 * @param env - The worker environment
+	 * @param requested - The mode requested by the client, if any
+	 * @returns The validation mode to apply
+	 */
+	static resolveMode(env: Env, requested?: ToolArgumentValidationMode): ToolArgumentValidationMode {
+		const mode = requested ?? env.TOOL_ARGUMENT_VALIDATION;
+		return mode === "repair" || mode === "retry" ? mode : "off";
+	}
+
+	/**
+	 * Repairs the arguments of a function call and records the errors that remain.
+	 * @param call - The function call returned by Gemini
+	 * @param tools - The tools declared in the request
+	 * @returns The function call with repaired arguments and, when still invalid, its validation errors
+	 */
+	static repairCall(call: GeminiFunctionCall, tools: Tool[]): GeminiFunctionCall {
+		const tool = tools.find((candidate) => candidate.function.name === call.name);
+		if (!tool) {
+			return { ...call, validationErrors: [`function '${call.name}' is not declared`] };
+		}
+		const schema = tool.function.parameters;
+		if (!schema) {
+			return call;
+		}
+
+		const args = this.coerce(call.args, schema, schema) as object;
+		if (JSON.stringify(args) !== JSON.stringify(call.args)) {
+			console.log(`[ToolArguments] Repaired arguments of '${call.name}'`);
+		}
+		const errors = JsonSchemaValidator.validate(args, schema);
+		return errors.length > 0 ? { ...call, args, validationErrors: errors } : { ...call, args };
+	}
+
+	/**
+	 * Wraps a content stream so every tool call is repaired before it is forwarded.
+	 * In retry mode an attempt is buffered and regenerated once when a call cannot be repaired,
+	 * the last attempt is streamed with invalid calls marked. The tokens of discarded attempts are added
+	 * to the usage of the attempt that is sent, its finish reason is the one reported.
+	 * @param createStream - Factory starting a new generation attempt
+	 * @param tools - The tools declared in the request
+	 * @param mode - The validation mode, either repair or retry
+	 */
+	static async *streamValidated(
+		createStream: () => AsyncGenerator<StreamChunk>,
+		tools: Tool[],
+		mode: ToolArgumentValidationMode
+	): AsyncGenerator<StreamChunk> {
+		let discardedUsage: UsageData | undefined;
+		for (let attempt = 0; ; attempt++) {
+			const canRetry = mode === "retry" && attempt < TOOL_ARGUMENT_MAX_RETRIES;
+			const buffered: StreamChunk[] = [];
+			const errors: string[] = [];
+			let attemptUsage: UsageData | undefined;
+
+			for await (const chunk of createStream()) {
+				let checked = chunk;
+				if (chunk.type === "tool_code" && chunk.data && typeof chunk.data === "object") {
+					const call = this.repairCall(chunk.data as GeminiFunctionCall, tools);
+					errors.push(...(call.validationErrors || []).map((error) => `${call.name}: ${error}`));
+					checked = { ...chunk, data: call };
+				} else if (chunk.type === "usage" && chunk.data && typeof chunk.data === "object") {
+					// Gemini reports the usage of the attempt so far, the last report is the total
+					attemptUsage = chunk.data as UsageData;
+					checked = discardedUsage ? { ...chunk, data: UsageMapper.add(discardedUsage, attemptUsage) } : chunk;
+				}
+				if (canRetry) {
+					buffered.push(checked);
+				} else {
+					yield checked;
+				}
+			}
+
+			if (!canRetry || errors.length === 0) {
+				yield* buffered;
+				if (discardedUsage && !attemptUsage) {
+					yield { type: "usage", data: discardedUsage };
+				}
+				return;
+			}
+			if (attemptUsage) {
+				discardedUsage = UsageMapper.add(discardedUsage, attemptUsage);
+			}
+			console.log(`[ToolArguments] Tool call arguments failed validation, retrying: ${errors.join("; ")}`);
+		}
+	}
+
+	private static coerce(value: unknown, schema: JsonSchema, root: JsonSchema): unknown {
+		if (typeof schema.$ref === "string") {
+			const resolved = JsonSchemaValidator.resolveRef(schema.$ref, root);
+			return resolved ? this.coerce(value, { ...resolved, ...schema, $ref: undefined }, root) : value;
+		}
+
+		const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string | undefined];
+		const declared = types.filter((type): type is string => typeof type === "string");
+		if (
+			value !== null &&
+			declared.length > 0 &&
+			!declared.some((type) => JsonSchemaValidator.matchesType(value, type))
+		) {
+			for (const type of declared) {
+				const converted = this.convertTo(value, type);
+				if (converted !== undefined) {
+					value = converted;
+					break;
+				}
+			}
+		}
+
+		if (Array.isArray(value) && schema.items && typeof schema.items === "object" && !Array.isArray(schema.items)) {
+			return value.map((item) => this.coerce(item, schema.items as JsonSchema, root));
+		}
+		if (value && typeof value === "object" && !Array.isArray(value) && schema.properties) {
+			const properties = schema.properties as Record<string, JsonSchema>;
+			return Object.fromEntries(
+				Object.entries(value).map(([name, property]) => [
+					name,
+					properties[name] ? this.coerce(property, properties[name], root) : property
+				])
+			);
+		}
+		return value;
+	}
+
+	private static convertTo(value: unknown, type: string): unknown {
+		switch (type) {
+			case "integer":
+			case "number": {
+				const number = typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+				return Number.isFinite(number) && (type === "number" || Number.isInteger(number)) ? number : undefined;
+			}
+			case "boolean":
+				return value === "true" ? true : value === "false" ? false : undefined;
+			case "string":
+				return typeof value === "number" || typeof value === "boolean" ? String(value) : undefined;
+			case "array":
+				// A single value where a list is expected becomes a one-element list
+				return [value];
+			case "object":
+				return typeof value === "string" ? this.parseObject(value) : undefined;
+			default:
+				return undefined;
+		}
+	}
+
+	private static parseObject(text: string): unknown {
+		try {
+			const parsed: unknown = JSON.parse(text);
+			return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+		} catch {
+			return undefined;
+		}
+	}
+}
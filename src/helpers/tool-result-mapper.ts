@@ -0,0 +1,68 @@
+import { ChatMessage } from "../types";
+
+/**
+ * Helper class to map OpenAI tool result messages onto Gemini function responses.
+ * Gemini matches a functionResponse to its call by function name, so every
+ * tool_call_id has to be resolved against the assistant tool_calls that precede it.
+ */
+export class ToolResultMapper {
+	/**
+	 * Finds the first tool result that does not answer a preceding assistant tool call.
+	 * @param messages - The conversation messages in order
+	 * @returns An error message describing the unmatched result, or undefined when every result matches
+	 */
+	static findUnmatchedResult(messages: ChatMessage[]): string | undefined {
+		const callIds = new Set<string>();
+		for (const msg of messages) {
+			if (msg.role === "assistant") {
+				msg.tool_calls?.forEach((toolCall) => callIds.add(toolCall.id));
+			}
+			if (msg.role !== "tool") {
+				continue;
+			}
+			if (!msg.tool_call_id) {
+				return "Tool message is missing tool_call_id";
+			}
+			if (!callIds.has(msg.tool_call_id)) {
+				return `Tool result '${msg.tool_call_id}' does not match any preceding assistant tool call`;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Collects the function name of every assistant tool call, keyed by tool call id.
+	 * @param messages - The conversation messages
+	 * @returns A map from tool call id to function name
+	 */
+	static resolveFunctionNames(messages: ChatMessage[]): Map<string, string> {
+		const callNames = new Map<string, string>();
+		for (const msg of messages) {
+			if (msg.role === "assistant") {
+				for (const toolCall of msg.tool_calls || []) {
+					callNames.set(toolCall.id, toolCall.function.name);
+				}
+			}
+		}
+		return callNames;
+	}
+
+	/**
+	 * Converts tool result content into a Gemini function response object.
+	 * JSON objects are passed through as structured data, anything else is wrapped in `{result}`.
+	 * @param content - The tool message content
+	 * @returns The response object for the functionResponse part
+	 */
+	static toFunctionResponse(content: ChatMessage["content"]): Record<string, unknown> {
+		const text = typeof content === "string" ? content : content.map((part) => part.text || "").join("");
+		try {
+			const parsed: unknown = JSON.parse(text);
+			if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+				return parsed as Record<string, unknown>;
+			}
+			return { result: parsed };
+		} catch {
+			return { result: text };
+		}
+	}
+}
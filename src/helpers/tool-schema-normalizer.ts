@@ -0,0 +1,47 @@
+import { Tool } from "../types";
+import { JsonSchemaConverter } from "./json-schema-converter";
+
+export interface GeminiFunctionDeclaration {
+	name: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+}
+
+/**
+ * Helper class to turn OpenAI function tools into Gemini function declarations.
+ * Tool schemas from MCP servers and Pydantic models routinely use JSON Schema features
+ * Gemini rejects, so parameters are normalized and every rewrite is logged at debug level.
+ */
+export class ToolSchemaNormalizer {
+	/**
+	 * Converts a function tool into a Gemini function declaration.
+	 * @param tool - The OpenAI function tool
+	 * @returns The function declaration with Gemini-compatible parameters
+	 */
+	static toFunctionDeclaration(tool: Tool): GeminiFunctionDeclaration {
+		const { name, description, parameters } = tool.function;
+		if (!parameters) {
+			return { name, description };
+		}
+
+		const changes: string[] = [];
+		const normalized = JsonSchemaConverter.toGeminiSchema(parameters, changes);
+
+		// Gemini rejects OBJECT parameters without properties, a function without arguments omits them instead
+		const properties = normalized.properties as Record<string, unknown> | undefined;
+		if (normalized.type === "OBJECT" && (!properties || Object.keys(properties).length === 0)) {
+			changes.push("$: omitted parameters without properties");
+			this.logChanges(name, changes);
+			return { name, description };
+		}
+
+		this.logChanges(name, changes);
+		return { name, description, parameters: normalized };
+	}
+
+	private static logChanges(name: string, changes: string[]): void {
+		if (changes.length > 0) {
+			console.debug(`[ToolSchemaNormalizer] Normalized parameters of '${name}': ${changes.join("; ")}`);
+		}
+	}
+}
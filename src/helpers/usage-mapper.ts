@@ -0,0 +1,77 @@
+import { ChatCompletionUsage, UsageData } from "../types";
+import { AnthropicUsage } from "../types/anthropic";
+import { ResponsesUsage } from "../types/responses";
+
+/**
+ * Helper class to convert Gemini token usage into the usage objects of the supported API formats.
+ * Reasoning tokens are billed as output and tool-use prompt tokens as input, so both are
+ * folded into the totals and also reported separately where the format allows it.
+ */
+export class UsageMapper {
+	/**
+	 * Converts usage data into an OpenAI usage object with token details.
+	 * @param usage - The usage reported by Gemini
+	 * @returns The OpenAI usage object
+	 */
+	static toOpenAI(usage: UsageData): ChatCompletionUsage {
+		const promptTokens = usage.inputTokens + (usage.toolUsePromptTokens ?? 0);
+		const completionTokens = usage.outputTokens + (usage.thoughtsTokens ?? 0);
+		return {
+			prompt_tokens: promptTokens,
+			completion_tokens: completionTokens,
+			total_tokens: promptTokens + completionTokens,
+			prompt_tokens_details: {
+				cached_tokens: usage.cachedTokens ?? 0,
+				tool_use_prompt_tokens: usage.toolUsePromptTokens
+			},
+			completion_tokens_details: { reasoning_tokens: usage.thoughtsTokens ?? 0 }
+		};
+	}
+
+	/**
+	 * Converts usage data into a Responses API usage object.
+	 * @param usage - The usage reported by Gemini
+	 * @returns The Responses API usage object
+	 */
+	static toResponses(usage: UsageData): ResponsesUsage {
+		const { prompt_tokens, completion_tokens, total_tokens } = this.toOpenAI(usage);
+		return {
+			input_tokens: prompt_tokens,
+			output_tokens: completion_tokens,
+			total_tokens,
+			input_tokens_details: { cached_tokens: usage.cachedTokens ?? 0 },
+			output_tokens_details: { reasoning_tokens: usage.thoughtsTokens ?? 0 }
+		};
+	}
+
+	/**
+	 * Converts usage data into an Anthropic usage object.
+	 * Anthropic reports cached tokens separately from the uncached input tokens.
+	 * @param usage - The usage reported by Gemini
+	 * @returns The Anthropic usage object
+	 */
+	static toAnthropic(usage: UsageData): AnthropicUsage {
+		const cachedTokens = usage.cachedTokens ?? 0;
+		return {
+			input_tokens: usage.inputTokens + (usage.toolUsePromptTokens ?? 0) - cachedTokens,
+			output_tokens: usage.outputTokens + (usage.thoughtsTokens ?? 0),
+			...(cachedTokens > 0 && { cache_read_input_tokens: cachedTokens })
+		};
+	}
+
+	/**
+	 * Adds two usage records, used when one response aggregates several generations.
+	 * @param total - The running total, if any
+	 * @param usage - The usage to add
+	 * @returns The combined usage
+	 */
+	static add(total: UsageData | undefined, usage: UsageData): UsageData {
+		return {
+			inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+			outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+			thoughtsTokens: (total?.thoughtsTokens ?? 0) + (usage.thoughtsTokens ?? 0),
+			cachedTokens: (total?.cachedTokens ?? 0) + (usage.cachedTokens ?? 0),
+			toolUsePromptTokens: (total?.toolUsePromptTokens ?? 0) + (usage.toolUsePromptTokens ?? 0)
+		};
+	}
+}
@@ -1,6 +1,9 @@
 import { Hono } from "hono";
 import { Env } from "./types";
 import { OpenAIRoute } from "./routes/openai";
+import { ResponsesRoute } from "./routes/responses";
+import { AnthropicRoute } from "./routes/anthropic";
+import { GeminiRoute } from "./routes/gemini";
 import { DebugRoute } from "./routes/debug";
 import { openAIApiKeyAuth } from "./middlewares/auth";
 import { loggingMiddleware } from "./middlewares/logging";
@@ -13,6 +16,9 @@ import { loggingMiddleware } from "./middlewares/logging";
  *
  * Features:
  * - OpenAI-compatible chat completions and model listing
+ * - OpenAI Responses API with typed output items and streaming events
+ * - Anthropic Messages API compatibility with content blocks and tool use
+ * - Native Gemini generateContent/streamGenerateContent/countTokens passthrough
  * - OAuth2 authentication with token caching via Cloudflare KV
  * - Support for multiple Gemini models (2.5 Pro, 2.0 Flash, 1.5 Pro, etc.)
  * - Streaming responses compatible with OpenAI SDK
@@ -30,7 +36,10 @@ app.use("*", async (c, next) => {
 	// Set CORS headers
 	c.header("Access-Control-Allow-Origin", "*");
 	c.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-	c.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+	c.header(
+		"Access-Control-Allow-Headers",
+		"Content-Type, Authorization, x-api-key, anthropic-version, x-goog-api-key, x-client-id, x-thinking-mode, x-thinking-format"
+	);
 
 	// Handle preflight requests
 	if (c.req.method === "OPTIONS") {
@@ -41,11 +50,15 @@ app.use("*", async (c, next) => {
 	await next();
 });
 
-// Apply OpenAI API key authentication middleware to all /v1 routes
+// Apply OpenAI API key authentication middleware to all /v1 and /v1beta routes
 app.use("/v1/*", openAIApiKeyAuth);
+app.use("/v1beta/*", openAIApiKeyAuth);
 
 // Setup route handlers
 app.route("/v1", OpenAIRoute);
+app.route("/v1", ResponsesRoute);
+app.route("/v1", AnthropicRoute);
+app.route("/v1beta", GeminiRoute);
 app.route("/v1/debug", DebugRoute);
 
 // Add individual debug routes to main app for backward compatibility
@@ -65,6 +78,10 @@ app.get("/", (c) => {
 		},
 		endpoints: {
 			chat_completions: "/v1/chat/completions",
+			completions: "/v1/completions",
+			responses: "/v1/responses",
+			messages: "/v1/messages",
+			gemini_native: "/v1beta/models/{model}:generateContent",
 			models: "/v1/models",
 			debug: {
 				cache: "/v1/debug/cache",
@@ -4,6 +4,8 @@ import { Env } from "../types";
 /**
  * Middleware to enforce OpenAI-style API key authentication if OPENAI_API_KEY is set in the environment.
  * Checks for 'Authorization: Bearer <key>' header on protected routes.
+ * Anthropic-style 'x-api-key: <key>' and Gemini-style 'x-goog-api-key' headers are accepted as well.
+ * The '?key=' query parameter is only accepted on the Gemini-native routes, keys in URLs end up in logs.
  */
 export const openAIApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
 	// Skip authentication for public endpoints
@@ -16,6 +18,26 @@ export const openAIApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c,
 	// If OPENAI_API_KEY is set in environment, require authentication
 	if (c.env.OPENAI_API_KEY) {
 		const authHeader = c.req.header("Authorization");
+		const queryKey = c.req.path.startsWith("/v1beta/models/") ? c.req.query("key") : undefined;
+		const apiKeyHeader = c.req.header("x-api-key") ?? c.req.header("x-goog-api-key") ?? queryKey;
+
+		// Anthropic and Google GenAI SDKs send the key in their own header instead of a bearer token
+		if (!authHeader && apiKeyHeader) {
+			if (apiKeyHeader !== c.env.OPENAI_API_KEY) {
+				return c.json(
+					{
+						error: {
+							message: "Invalid API key",
+							type: "authentication_error",
+							code: "invalid_api_key"
+						}
+					},
+					401
+				);
+			}
+			await next();
+			return;
+		}
 
 		if (!authHeader) {
 			return c.json(
@@ -10,7 +10,8 @@ export const geminiCliModels: Record<string, ModelInfo> = {
 		inputPrice: 0,
 		outputPrice: 0,
 		description: "Google's Gemini 2.5 Pro model via OAuth (free tier)",
-		thinking: true
+		thinking: true,
+		thinkingCapabilities: { minBudget: 128, maxBudget: 32768, canDisable: false }
 	},
 	"gemini-2.5-flash": {
 		maxTokens: 65536,
@@ -20,7 +21,8 @@ export const geminiCliModels: Record<string, ModelInfo> = {
 		inputPrice: 0,
 		outputPrice: 0,
 		description: "Google's Gemini 2.5 Flash model via OAuth (free tier)",
-		thinking: true
+		thinking: true,
+		thinkingCapabilities: { minBudget: 1, maxBudget: 24576, canDisable: true }
 	},
 	"gemini-2.5-flash-lite": {
 		maxTokens: 65536,
@@ -30,7 +32,8 @@ export const geminiCliModels: Record<string, ModelInfo> = {
 		inputPrice: 0,
 		outputPrice: 0,
 		description: "Google's Gemini 2.5 Flash Lite model via OAuth (free tier)",
-		thinking: true
+		thinking: true,
+		thinkingCapabilities: { minBudget: 512, maxBudget: 24576, canDisable: true }
 	},
 	"gemini-3-pro-preview": {
 		maxTokens: 65536,
@@ -40,7 +43,9 @@ export const geminiCliModels: Record<string, ModelInfo> = {
 		inputPrice: 0,
 		outputPrice: 0,
 		description: "Google's Gemini 3 Pro Preview model via OAuth (free tier)",
-		thinking: true
+		thinking: true,
+		thinkingCapabilities: { minBudget: 128, maxBudget: 32768, canDisable: false, thinkingLevels: ["low", "high"] },
+		supportsMixedTools: true
 	}
 };
 
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { ResponsesOutputBuilder } from "./responses-stream-transformer";
+
+function createBuilder(): ResponsesOutputBuilder {
+	return new ResponsesOutputBuilder("gemini-2.5-flash", {
+		instructions: null,
+		tools: [],
+		tool_choice: "auto",
+		parallel_tool_calls: true,
+		temperature: null,
+		top_p: null,
+		max_output_tokens: null,
+		metadata: {},
+		text: { format: { type: "text" } }
+	});
+}
+
+describe("ResponsesOutputBuilder", () => {
+	it("completes a response with its output text", () => {
+		const builder = createBuilder();
+		builder.process({ type: "text", data: "Hello" });
+		const events = builder.finish();
+
+		expect(events[events.length - 1].type).toBe("response.completed");
+		expect(builder.getResponse()).toMatchObject({ status: "completed", output_text: "Hello", error: null });
+	});
+
+	it("fails a response on an error chunk instead of completing it", () => {
+		const builder = createBuilder();
+		builder.process({ type: "text", data: "Partial" });
+		const events = builder.process({ type: "error", data: "Stream request failed: 500" });
+
+		expect(events.map((event) => event.type)).toEqual([
+			"response.output_text.done",
+			"response.content_part.done",
+			"response.output_item.done",
+			"response.failed"
+		]);
+		expect(builder.getResponse()).toMatchObject({
+			status: "failed",
+			output_text: "Partial",
+			error: { code: "server_error", message: "Stream request failed: 500" }
+		});
+		expect(builder.finish()).toEqual([]);
+	});
+});
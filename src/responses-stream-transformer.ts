@@ -0,0 +1,359 @@
+import { StreamChunk, ReasoningData, GeminiFunctionCall, UsageData, FinishReasonData } from "./types";
+import { FinishReasonMapper } from "./helpers/finish-reason-mapper";
+import { UsageMapper } from "./helpers/usage-mapper";
+import {
+	ResponsesFunctionCallOutput,
+	ResponsesMessageOutputItem,
+	ResponsesReasoningOutputItem,
+	ResponsesResponse,
+	ResponsesStreamEvent
+} from "./types/responses";
+
+// Type guard functions
+function isReasoningData(data: unknown): data is ReasoningData {
+	return typeof data === "object" && data !== null && "reasoning" in data;
+}
+
+function isGeminiFunctionCall(data: unknown): data is GeminiFunctionCall {
+	return typeof data === "object" && data !== null && "name" in data && "args" in data;
+}
+
+function isUsageData(data: unknown): data is UsageData {
+	return typeof data === "object" && data !== null && "inputTokens" in data && "outputTokens" in data;
+}
+
+function isFinishReasonData(data: unknown): data is FinishReasonData {
+	return typeof data === "object" && data !== null && "reason" in data;
+}
+
+/**
+ * Request fields echoed back on every Responses API response object.
+ */
+export type ResponsesEcho = Pick<
+	ResponsesResponse,
+	| "instructions"
+	| "tools"
+	| "tool_choice"
+	| "parallel_tool_calls"
+	| "temperature"
+	| "top_p"
+	| "max_output_tokens"
+	| "metadata"
+	| "text"
+>;
+
+/**
+ * Builds a Responses API response object from Gemini stream chunks.
+ * Each processed chunk returns the streaming events it produced, so the same
+ * builder serves both the SSE transformer and non-streaming requests.
+ */
+export class ResponsesOutputBuilder {
+	private response: ResponsesResponse;
+	private sequenceNumber = 0;
+	private currentItem: ResponsesMessageOutputItem | ResponsesReasoningOutputItem | null = null;
+	private usage: UsageData | undefined;
+	private finishData: FinishReasonData | undefined;
+	private ended = false;
+
+	constructor(model: string, echo: ResponsesEcho) {
+		this.response = {
+			id: `resp_${crypto.randomUUID()}`,
+			object: "response",
+			created_at: Math.floor(Date.now() / 1000),
+			status: "in_progress",
+			model,
+			output: [],
+			...echo,
+			error: null,
+			incomplete_details: null,
+			usage: null
+		};
+	}
+
+	/**
+	 * Events announcing the response before any output is produced.
+	 */
+	public start(): ResponsesStreamEvent[] {
+		return [
+			this.event("response.created", { response: this.snapshot() }),
+			this.event("response.in_progress", { response: this.snapshot() })
+		];
+	}
+
+	/**
+	 * Consumes a single stream chunk and returns the events it produced.
+	 */
+	public process(chunk: StreamChunk): ResponsesStreamEvent[] {
+		switch (chunk.type) {
+			case "text":
+			case "thinking_content":
+				return typeof chunk.data === "string" && chunk.data ? this.appendText(chunk.data) : [];
+			case "real_thinking":
+				return typeof chunk.data === "string" && chunk.data ? this.appendReasoning(chunk.data) : [];
+			case "reasoning":
+				return isReasoningData(chunk.data) && chunk.data.reasoning ? this.appendReasoning(chunk.data.reasoning) : [];
+			case "tool_code":
+				return isGeminiFunctionCall(chunk.data) ? this.addFunctionCall(chunk.data) : [];
+			case "usage":
+				if (isUsageData(chunk.data)) {
+					this.usage = chunk.data;
+				}
+				return [];
+			case "finish":
+				if (isFinishReasonData(chunk.data)) {
+					this.finishData = chunk.data;
+				}
+				return [];
+			case "error":
+				return typeof chunk.data === "string" ? this.fail(chunk.data) : [];
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * Closes any open output item and marks the response as completed,
+	 * or as incomplete when Gemini stopped at the token limit or a content filter.
+	 */
+	public finish(): ResponsesStreamEvent[] {
+		if (this.ended) {
+			return [];
+		}
+		const incompleteReason = FinishReasonMapper.toResponsesIncompleteReason(this.finishData);
+		this.response.incomplete_details = incompleteReason ? { reason: incompleteReason } : null;
+		return this.end(incompleteReason ? "incomplete" : "completed");
+	}
+
+	/**
+	 * Closes any open output item and marks the response as failed, the output produced so far is kept.
+	 * @param message - Why generation failed
+	 */
+	public fail(message: string): ResponsesStreamEvent[] {
+		if (this.ended) {
+			return [];
+		}
+		this.response.error = { code: "server_error", message };
+		return this.end("failed");
+	}
+
+	private end(status: "completed" | "incomplete" | "failed"): ResponsesStreamEvent[] {
+		const events = this.closeCurrentItem();
+		this.ended = true;
+
+		this.response.status = status;
+		if (this.usage) {
+			this.response.usage = UsageMapper.toResponses(this.usage);
+		}
+		this.response.output_text = this.response.output
+			.filter((item): item is ResponsesMessageOutputItem => item.type === "message")
+			.map((item) => item.content.map((part) => part.text).join(""))
+			.join("");
+
+		events.push(this.event(`response.${status}`, { response: this.snapshot() }));
+		return events;
+	}
+
+	public getResponse(): ResponsesResponse {
+		return this.response;
+	}
+
+	private appendText(text: string): ResponsesStreamEvent[] {
+		const events: ResponsesStreamEvent[] = [];
+
+		if (this.currentItem?.type !== "message") {
+			events.push(...this.closeCurrentItem());
+			const item: ResponsesMessageOutputItem = {
+				type: "message",
+				id: `msg_${crypto.randomUUID()}`,
+				status: "in_progress",
+				role: "assistant",
+				content: []
+			};
+			events.push(...this.openItem(item));
+			item.content.push({ type: "output_text", text: "", annotations: [] });
+			events.push(
+				this.event("response.content_part.added", {
+					item_id: item.id,
+					output_index: this.outputIndex(),
+					content_index: 0,
+					part: { type: "output_text", text: "", annotations: [] }
+				})
+			);
+		}
+
+		const message = this.currentItem as ResponsesMessageOutputItem;
+		message.content[0].text += text;
+		events.push(
+			this.event("response.output_text.delta", {
+				item_id: message.id,
+				output_index: this.outputIndex(),
+				content_index: 0,
+				delta: text
+			})
+		);
+		return events;
+	}
+
+	private appendReasoning(text: string): ResponsesStreamEvent[] {
+		const events: ResponsesStreamEvent[] = [];
+
+		if (this.currentItem?.type !== "reasoning") {
+			events.push(...this.closeCurrentItem());
+			const item: ResponsesReasoningOutputItem = {
+				type: "reasoning",
+				id: `rs_${crypto.randomUUID()}`,
+				summary: []
+			};
+			events.push(...this.openItem(item));
+			item.summary.push({ type: "summary_text", text: "" });
+			events.push(
+				this.event("response.reasoning_summary_part.added", {
+					item_id: item.id,
+					output_index: this.outputIndex(),
+					summary_index: 0,
+					part: { type: "summary_text", text: "" }
+				})
+			);
+		}
+
+		const reasoning = this.currentItem as ResponsesReasoningOutputItem;
+		reasoning.summary[0].text += text;
+		events.push(
+			this.event("response.reasoning_summary_text.delta", {
+				item_id: reasoning.id,
+				output_index: this.outputIndex(),
+				summary_index: 0,
+				delta: text
+			})
+		);
+		return events;
+	}
+
+	private addFunctionCall(functionCall: GeminiFunctionCall): ResponsesStreamEvent[] {
+		const events = this.closeCurrentItem();
+		const args = JSON.stringify(functionCall.args ?? {});
+		const item: ResponsesFunctionCallOutput = {
+			type: "function_call",
+			id: `fc_${crypto.randomUUID()}`,
+			call_id: functionCall.id || `call_${crypto.randomUUID()}`,
+			name: functionCall.name,
+			arguments: "",
+			status: "in_progress"
+		};
+
+		this.response.output.push(item);
+		const outputIndex = this.outputIndex();
+		events.push(this.event("response.output_item.added", { output_index: outputIndex, item: { ...item } }));
+		events.push(
+			this.event("response.function_call_arguments.delta", { item_id: item.id, output_index: outputIndex, delta: args })
+		);
+
+		item.arguments = args;
+		item.status = "completed";
+		events.push(
+			this.event("response.function_call_arguments.done", {
+				item_id: item.id,
+				output_index: outputIndex,
+				arguments: args
+			})
+		);
+		events.push(this.event("response.output_item.done", { output_index: outputIndex, item: { ...item } }));
+		return events;
+	}
+
+	private openItem(item: ResponsesMessageOutputItem | ResponsesReasoningOutputItem): ResponsesStreamEvent[] {
+		this.response.output.push(item);
+		this.currentItem = item;
+		return [
+			this.event("response.output_item.added", { output_index: this.outputIndex(), item: structuredClone(item) })
+		];
+	}
+
+	private closeCurrentItem(): ResponsesStreamEvent[] {
+		const item = this.currentItem;
+		if (!item) {
+			return [];
+		}
+		this.currentItem = null;
+
+		const outputIndex = this.response.output.indexOf(item);
+		const events: ResponsesStreamEvent[] = [];
+
+		if (item.type === "message") {
+			const part = item.content[0];
+			item.status = "completed";
+			events.push(
+				this.event("response.output_text.done", {
+					item_id: item.id,
+					output_index: outputIndex,
+					content_index: 0,
+					text: part.text
+				}),
+				this.event("response.content_part.done", {
+					item_id: item.id,
+					output_index: outputIndex,
+					content_index: 0,
+					part: structuredClone(part)
+				})
+			);
+		} else {
+			const part = item.summary[0];
+			events.push(
+				this.event("response.reasoning_summary_text.done", {
+					item_id: item.id,
+					output_index: outputIndex,
+					summary_index: 0,
+					text: part.text
+				}),
+				this.event("response.reasoning_summary_part.done", {
+					item_id: item.id,
+					output_index: outputIndex,
+					summary_index: 0,
+					part: structuredClone(part)
+				})
+			);
+		}
+
+		events.push(this.event("response.output_item.done", { output_index: outputIndex, item: structuredClone(item) }));
+		return events;
+	}
+
+	private outputIndex(): number {
+		return this.response.output.length - 1;
+	}
+
+	private snapshot(): ResponsesResponse {
+		return structuredClone(this.response);
+	}
+
+	private event(type: string, payload: Record<string, unknown>): ResponsesStreamEvent {
+		return { type, sequence_number: this.sequenceNumber++, ...payload };
+	}
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into OpenAI Responses API server-sent events.
+ */
+export function createResponsesStreamTransformer(
+	builder: ResponsesOutputBuilder
+): TransformStream<StreamChunk, Uint8Array> {
+	const encoder = new TextEncoder();
+	const send = (controller: TransformStreamDefaultController<Uint8Array>, events: ResponsesStreamEvent[]) => {
+		for (const event of events) {
+			controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+		}
+	};
+
+	return new TransformStream({
+		start(controller) {
+			send(controller, builder.start());
+		},
+		transform(chunk, controller) {
+			send(controller, builder.process(chunk));
+		},
+		flush(controller) {
+			send(controller, builder.finish());
+		}
+	});
+}
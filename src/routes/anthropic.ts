@@ -0,0 +1,172 @@
+import { Hono } from "hono";
+import { Env, StreamChunk } from "../types";
+import { AnthropicMessagesRequest } from "../types/anthropic";
+import { geminiCliModels, DEFAULT_MODEL, getAllModelIds } from "../models";
+import { AuthManager } from "../auth";
+import { GeminiApiClient } from "../gemini-client";
+import { AnthropicInputConverter } from "../helpers/anthropic-input-converter";
+import { GenerationConfigValidator } from "../helpers/generation-config-validator";
+import { ThinkingDisplayResolver } from "../helpers/thinking-display-resolver";
+import { ToolResultMapper } from "../helpers/tool-result-mapper";
+import { AnthropicMessageBuilder, createAnthropicStreamTransformer } from "../anthropic-stream-transformer";
+
+/**
+ * Anthropic Messages API compatible routes.
+ */
+export const AnthropicRoute = new Hono<{ Bindings: Env }>();
+
+// Anthropic clients expect errors wrapped in a typed error envelope
+function anthropicError(type: string, message: string) {
+	return { type: "error", error: { type, message } };
+}
+
+// Messages endpoint
+AnthropicRoute.post("/messages", async (c) => {
+	try {
+		console.log("Anthropic messages request received");
+		const body = await c.req.json<AnthropicMessagesRequest>();
+		const model = body.model || DEFAULT_MODEL;
+		const stream = body.stream === true;
+
+		if (!body.messages?.length) {
+			return c.json(anthropicError("invalid_request_error", "messages is a required field"), 400);
+		}
+
+		// Validate model
+		if (!(model in geminiCliModels)) {
+			return c.json(
+				anthropicError(
+					"not_found_error",
+					`Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}`
+				),
+				404
+			);
+		}
+
+		const { systemPrompt, messages } = AnthropicInputConverter.toChatMessages(body);
+		const unmatchedToolResult = ToolResultMapper.findUnmatchedResult(messages);
+		if (unmatchedToolResult) {
+			return c.json(anthropicError("invalid_request_error", unmatchedToolResult), 400);
+		}
+
+		const hasImages = messages.some(
+			(msg) => Array.isArray(msg.content) && msg.content.some((content) => content.type === "image_url")
+		);
+		if (hasImages && !geminiCliModels[model].supportsImages) {
+			return c.json(anthropicError("invalid_request_error", `Model '${model}' does not support image inputs.`), 400);
+		}
+
+		// Thoughts are returned as thinking blocks, or as text in <thinking> tags, allowed clients may override the default
+		const { requested, client } = ThinkingDisplayResolver.readRequest(body, (name) => c.req.header(name));
+		const thinkingError = ThinkingDisplayResolver.validate(requested, ["anthropic_blocks", "think_tags"]);
+		if (thinkingError) {
+			return c.json(anthropicError("invalid_request_error", thinkingError), 400);
+		}
+		let thinkingDisplay = ThinkingDisplayResolver.resolve(c.env, requested, client);
+		// Extended thinking asks for the real thoughts, unless an allowed client chose the mode itself
+		const modeOverridden = requested.mode !== undefined && ThinkingDisplayResolver.canOverride(c.env, client);
+		if (body.thinking?.type === "enabled" && thinkingDisplay.mode === "off" && !modeOverridden) {
+			thinkingDisplay = { ...thinkingDisplay, mode: "raw" };
+		}
+
+		// The extended thinking budget maps onto the thinking budget or level the same way as chat completions
+		const { includeReasoning, thinkingLevel, thinkingBudget } = GenerationConfigValidator.resolveThinking(
+			model,
+			{ thinking_budget: body.thinking?.type === "enabled" ? body.thinking.budget_tokens : undefined },
+			thinkingDisplay.mode !== "off" && body.thinking?.type !== "disabled"
+		);
+
+		const { tools, enableSearch } = AnthropicInputConverter.toChatTools(body.tools);
+		const schemaError = GenerationConfigValidator.findSchemaError({ tools });
+		if (schemaError) {
+			return c.json(anthropicError("invalid_request_error", schemaError), 400);
+		}
+		const options = {
+			includeReasoning,
+			thinkingLevel,
+			thinkingBudget,
+			thinkingDisplay,
+			tools,
+			tool_choice: AnthropicInputConverter.toChatToolChoice(body.tool_choice),
+			parallel_tool_calls: body.tool_choice?.disable_parallel_tool_use !== true,
+			max_tokens: body.max_tokens,
+			temperature: body.temperature,
+			top_p: body.top_p,
+			stop: body.stop_sequences,
+			enable_search: enableSearch
+		};
+
+		const builder = new AnthropicMessageBuilder(model);
+
+		// Initialize services
+		const authManager = new AuthManager(c.env);
+		// Rotate credentials, ensuring we use one allowed for the requested model
+		await authManager.rotateCredentials("normal", undefined, model);
+		const geminiClient = new GeminiApiClient(c.env, authManager);
+
+		try {
+			await authManager.initializeAuth();
+		} catch (authError: unknown) {
+			const errorMessage = authError instanceof Error ? authError.message : String(authError);
+			console.error("Authentication failed:", errorMessage);
+			return c.json(anthropicError("authentication_error", "Authentication failed: " + errorMessage), 401);
+		}
+
+		if (stream) {
+			const { readable, writable } = new TransformStream<StreamChunk, StreamChunk>();
+			const writer = writable.getWriter();
+			const anthropicStream = readable.pipeThrough(createAnthropicStreamTransformer(builder));
+
+			// Asynchronously pipe data from Gemini to transformer
+			(async () => {
+				try {
+					for await (const chunk of geminiClient.streamContent(model, systemPrompt, messages, options)) {
+						if (c.req.raw.signal.aborted) {
+							console.log("Client disconnected, stopping stream processing");
+							break;
+						}
+						await writer.write(chunk);
+					}
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Anthropic stream error:", errorMessage);
+					try {
+						await writer.write({ type: "error", data: errorMessage });
+						await writer.close();
+					} catch {
+						// Ignore errors when the client has already gone away
+					}
+				}
+			})();
+
+			return new Response(anthropicStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+					"Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key, anthropic-version"
+				}
+			});
+		}
+
+		// Non-streaming response
+		try {
+			for await (const chunk of geminiClient.streamContent(model, systemPrompt, messages, options)) {
+				builder.process(chunk);
+			}
+			builder.finish();
+			return c.json(builder.getMessage());
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Anthropic completion error:", errorMessage);
+			return c.json(anthropicError("api_error", errorMessage), 500);
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json(anthropicError("api_error", errorMessage), 500);
+	}
+});
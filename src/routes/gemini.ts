@@ -0,0 +1,151 @@
+import { Hono } from "hono";
+import { ContentfulStatusCode } from "hono/utils/http-status";
+import { Env } from "../types";
+import { geminiCliModels, getAllModelIds } from "../models";
+import { AuthManager } from "../auth";
+import { GeminiApiClient } from "../gemini-client";
+
+/**
+ * Native Gemini API routes that pass requests through to Code Assist
+ * with credential rotation and quota handling.
+ */
+export const GeminiRoute = new Hono<{ Bindings: Env }>();
+
+const GEMINI_STATUS_NAMES: Record<number, string> = {
+	400: "INVALID_ARGUMENT",
+	401: "UNAUTHENTICATED",
+	404: "NOT_FOUND",
+	429: "RESOURCE_EXHAUSTED",
+	500: "INTERNAL"
+};
+
+// Google GenAI SDKs expect errors in the google.rpc.Status shape
+function geminiError(code: number, message: string) {
+	return { error: { code, message, status: GEMINI_STATUS_NAMES[code] ?? "UNKNOWN" } };
+}
+
+/**
+ * Converts a failed upstream request into the status code and body to return to the client.
+ * Upstream Gemini errors are forwarded unchanged so SDK error handling keeps working.
+ */
+function toErrorResponse(error: unknown): { status: ContentfulStatusCode; body: unknown } {
+	const errorMessage = error instanceof Error ? error.message : String(error);
+	const match = errorMessage.match(/^Stream request failed: (\d{3})\n([\s\S]*)$/);
+	if (match) {
+		const status = parseInt(match[1], 10) as ContentfulStatusCode;
+		try {
+			return { status, body: JSON.parse(match[2]) };
+		} catch {
+			return { status, body: geminiError(status, match[2]) };
+		}
+	}
+	return { status: 500, body: geminiError(500, errorMessage) };
+}
+
+// generateContent, streamGenerateContent and countTokens share the "models/{model}:{method}" path
+GeminiRoute.post("/models/:modelAction", async (c) => {
+	try {
+		const modelAction = c.req.param("modelAction");
+		const separator = modelAction.lastIndexOf(":");
+		const model = separator > 0 ? modelAction.slice(0, separator) : modelAction;
+		const method = separator > 0 ? modelAction.slice(separator + 1) : "";
+
+		if (!["generateContent", "streamGenerateContent", "countTokens"].includes(method)) {
+			return c.json(geminiError(404, `Method '${method}' is not supported`), 404);
+		}
+
+		// Validate model
+		if (!(model in geminiCliModels)) {
+			return c.json(
+				geminiError(404, `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}`),
+				404
+			);
+		}
+
+		const body = await c.req.json<Record<string, unknown>>();
+		console.log(`Native Gemini ${method} request received for model ${model}`);
+
+		// Initialize services
+		const authManager = new AuthManager(c.env);
+		// Rotate credentials, ensuring we use one allowed for the requested model
+		await authManager.rotateCredentials("normal", undefined, model);
+		const geminiClient = new GeminiApiClient(c.env, authManager);
+
+		try {
+			await authManager.initializeAuth();
+		} catch (authError: unknown) {
+			const errorMessage = authError instanceof Error ? authError.message : String(authError);
+			console.error("Authentication failed:", errorMessage);
+			return c.json(geminiError(401, "Authentication failed: " + errorMessage), 401);
+		}
+
+		if (method === "countTokens") {
+			// countTokens accepts either bare contents or a full generateContentRequest
+			const request = (body.generateContentRequest as Record<string, unknown>) ?? body;
+			return c.json(await geminiClient.countNativeTokens(model, request.contents));
+		}
+
+		if (method === "generateContent") {
+			return c.json((await geminiClient.generateNativeContent(model, body)) as Record<string, unknown>);
+		}
+
+		// Streaming: SSE when alt=sse is requested (as the GenAI SDKs do), otherwise a streamed JSON array
+		const useSSE = c.req.query("alt") === "sse";
+		const encoder = new TextEncoder();
+		const responses = geminiClient.streamNativeContent(model, body);
+
+		// Read the first response before answering so upstream errors keep their status code
+		const first = await responses.next();
+
+		const stream = new ReadableStream<Uint8Array>({
+			async start(controller) {
+				let index = 0;
+				const send = (data: unknown) => {
+					if (useSSE) {
+						controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\r\n\r\n`));
+					} else {
+						controller.enqueue(encoder.encode(`${index === 0 ? "[" : ",\r\n"}${JSON.stringify(data)}`));
+					}
+					index++;
+				};
+
+				try {
+					if (!first.done) {
+						send(first.value);
+					}
+					for await (const data of responses) {
+						if (c.req.raw.signal.aborted) {
+							console.log("Client disconnected, stopping stream processing");
+							break;
+						}
+						send(data);
+					}
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Native stream error:", errorMessage);
+					send(toErrorResponse(streamError).body);
+				}
+
+				if (!useSSE) {
+					controller.enqueue(encoder.encode(index === 0 ? "[]" : "]"));
+				}
+				controller.close();
+			}
+		});
+
+		return new Response(stream, {
+			headers: {
+				"Content-Type": useSSE ? "text/event-stream" : "application/json",
+				"Cache-Control": "no-cache",
+				Connection: "keep-alive",
+				"Access-Control-Allow-Origin": "*",
+				"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+				"Access-Control-Allow-Headers": "Content-Type, Authorization, x-goog-api-key"
+			}
+		});
+	} catch (e: unknown) {
+		console.error("Native Gemini request error:", e);
+		const { status, body } = toErrorResponse(e);
+		return c.json(body as Record<string, unknown>, status);
+	}
+});
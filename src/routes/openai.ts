@@ -1,25 +1,90 @@
 import { Hono } from "hono";
-import { Env, ChatCompletionRequest, ChatCompletionResponse } from "../types";
+import {
+	Env,
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatCompletionMessage,
+	CompletionRequest,
+	CompletionResponse,
+	MessageContent,
+	StreamChunk,
+	ThinkingDisplay,
+	ThinkingFormat,
+	UsageData
+} from "../types";
 import { geminiCliModels, DEFAULT_MODEL, getAllModelIds } from "../models";
 import { OPENAI_MODEL_OWNER } from "../config";
-import { DEFAULT_THINKING_BUDGET } from "../constants";
+import {
+	DEFAULT_THINKING_BUDGET,
+	MAX_CANDIDATE_COUNT,
+	STRICT_SCHEMA_MAX_RETRIES,
+	TEXT_COMPLETION_SUFFIX_PROMPT,
+	TEXT_COMPLETION_SYSTEM_PROMPT
+} from "../constants";
 import { AuthManager } from "../auth";
 import { GeminiApiClient } from "../gemini-client";
-import { createOpenAIStreamTransformer } from "../stream-transformer";
+import {
+	IndexedStreamChunk,
+	createOpenAICompletionStreamTransformer,
+	createOpenAIStreamTransformer
+} from "../stream-transformer";
+import { StructuredOutputValidator } from "../helpers/structured-output-validator";
+import { ToolResultMapper } from "../helpers/tool-result-mapper";
+import { LegacyFunctionConverter } from "../helpers/legacy-function-converter";
+import { FinishReasonMapper } from "../helpers/finish-reason-mapper";
+import { UsageMapper } from "../helpers/usage-mapper";
+import { GenerationConfigValidator } from "../helpers/generation-config-validator";
+import { ThinkingDisplayResolver } from "../helpers/thinking-display-resolver";
 
 /**
- * OpenAI-compatible API routes for models and chat completions.
+ * OpenAI-compatible API routes for models, chat completions and legacy text completions.
  */
 export const OpenAIRoute = new Hono<{ Bindings: Env }>();
 
-// List available models
-OpenAIRoute.get("/models", async (c) => {
-	const modelData = getAllModelIds().map((modelId) => ({
+/**
+ * Creates an OpenAI model object, optionally extended with capabilities and live credential availability.
+ */
+function createModelData(modelId: string, availability?: { total: number; allowed: number; available: number }) {
+	const modelData = {
 		id: modelId,
 		object: "model",
 		created: Math.floor(Date.now() / 1000),
 		owned_by: OPENAI_MODEL_OWNER
-	}));
+	};
+
+	if (!availability) {
+		return modelData;
+	}
+
+	const modelInfo = geminiCliModels[modelId];
+	return {
+		...modelData,
+		description: modelInfo.description,
+		context_window: modelInfo.contextWindow,
+		max_output_tokens: modelInfo.maxTokens,
+		capabilities: {
+			vision: modelInfo.supportsImages,
+			thinking: modelInfo.thinking,
+			thinking_levels: modelInfo.thinkingCapabilities?.thinkingLevels,
+			prompt_cache: modelInfo.supportsPromptCache,
+			mixed_tools: modelInfo.supportsMixedTools === true
+		},
+		availability: {
+			available: availability.available > 0,
+			total_credentials: availability.total,
+			allowed_credentials: availability.allowed,
+			available_credentials: availability.available
+		}
+	};
+}
+
+// List available models (add ?extended=true for capabilities and live availability)
+OpenAIRoute.get("/models", async (c) => {
+	const modelIds = getAllModelIds();
+	const extended = c.req.query("extended") === "true";
+	const availability = extended ? await new AuthManager(c.env).getModelAvailability(modelIds) : undefined;
+
+	const modelData = modelIds.map((modelId) => createModelData(modelId, availability?.[modelId]));
 
 	return c.json({
 		object: "list",
@@ -27,20 +92,63 @@ OpenAIRoute.get("/models", async (c) => {
 	});
 });
 
+/**
+ * Places the thoughts of a non-streaming choice in the requested thinking format.
+ * @returns The message fields carrying the reasoning
+ */
+function formatReasoning(
+	reasoning: string | undefined,
+	content: string,
+	thinkingFormat: ThinkingFormat
+): Partial<ChatCompletionMessage> {
+	if (!reasoning) {
+		return {};
+	}
+	switch (thinkingFormat) {
+		case "think_tags":
+			return { content: `<thinking>\n${reasoning}\n</thinking>\n\n${content}` };
+		case "anthropic_blocks":
+			return { thinking_blocks: [{ type: "thinking", thinking: reasoning }] };
+		default:
+			return { reasoning_content: reasoning };
+	}
+}
+
+// Retrieve a single model with capabilities and live availability
+OpenAIRoute.get("/models/:id", async (c) => {
+	const modelId = c.req.param("id");
+	if (!(modelId in geminiCliModels)) {
+		return c.json(
+			{
+				error: `Model '${modelId}' not found. Available models: ${getAllModelIds().join(", ")}`
+			},
+			404
+		);
+	}
+
+	const availability = await new AuthManager(c.env).getModelAvailability([modelId]);
+	return c.json(createModelData(modelId, availability[modelId]));
+});
+
 // Chat completions endpoint
 OpenAIRoute.post("/chat/completions", async (c) => {
 	try {
 		console.log("Chat completions request received");
 		const body = await c.req.json<ChatCompletionRequest>();
 		const model = body.model || DEFAULT_MODEL;
-		const messages = body.messages || [];
+		const messages = LegacyFunctionConverter.toToolMessages(body.messages || []);
 		// OpenAI API compatibility: stream defaults to true unless explicitly set to false
 		const stream = body.stream !== false;
 
-		// Check environment settings for real thinking
-		const isRealThinkingEnabled = c.env.ENABLE_REAL_THINKING === "true";
-		let includeReasoning = isRealThinkingEnabled; // Automatically enable reasoning when real thinking is enabled
-		let thinkingBudget = body.thinking_budget ?? DEFAULT_THINKING_BUDGET; // Default to dynamic allocation
+		// Thinking visibility and format default to the environment settings, allowed clients may override them
+		const { requested, client } = ThinkingDisplayResolver.readRequest(body, (name) => c.req.header(name));
+		const thinkingError = ThinkingDisplayResolver.validate(requested);
+		if (thinkingError) {
+			return c.json({ error: thinkingError }, 400);
+		}
+		const thinkingDisplay = ThinkingDisplayResolver.resolve(c.env, requested, client);
+		// Reasoning is included automatically when thoughts are shown
+		const isRealThinkingEnabled = thinkingDisplay.mode !== "off";
 
 		// Newly added parameters
 		const generationOptions = {
@@ -51,41 +159,47 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			presence_penalty: body.presence_penalty,
 			frequency_penalty: body.frequency_penalty,
 			seed: body.seed,
-			response_format: body.response_format
+			n: body.n,
+			parallel_tool_calls: body.parallel_tool_calls,
+			tool_argument_validation: body.tool_argument_validation,
+			response_format: body.response_format,
+			// Native tool flags are read from the top level, extra_body or model_params by the client
+			enable_search: body.enable_search ?? (body.web_search_options ? true : undefined),
+			web_search_options: body.web_search_options,
+			enable_url_context: body.enable_url_context,
+			enable_code_execution: body.enable_code_execution,
+			inline_code_execution: body.inline_code_execution,
+			enable_native_tools: body.enable_native_tools,
+			native_tools_priority: body.native_tools_priority,
+			extra_body: body.extra_body,
+			model_params: body.model_params
 		};
 
-		// Handle effort level mapping to thinking_budget (check multiple locations for client compatibility)
+		// Effort is read from multiple locations for client compatibility and resolved per model,
+		// into a thinking level for Gemini 3 and a thinking budget for Gemini 2.5
 		const reasoning_effort =
 			body.reasoning_effort || body.extra_body?.reasoning_effort || body.model_params?.reasoning_effort;
-		if (reasoning_effort) {
-			includeReasoning = true; // Effort implies reasoning
-			const isFlashModel = model.includes("flash");
-			switch (reasoning_effort) {
-				case "low":
-					thinkingBudget = 1024;
-					break;
-				case "medium":
-					thinkingBudget = isFlashModel ? 12288 : 16384;
-					break;
-				case "high":
-					thinkingBudget = isFlashModel ? 24576 : 32768;
-					break;
-				case "none":
-					thinkingBudget = 0;
-					includeReasoning = false;
-					break;
-			}
-		}
+		const thinking = GenerationConfigValidator.resolveThinking(
+			model,
+			{ thinking_budget: body.thinking_budget, thinking_level: body.thinking_level, reasoning_effort },
+			isRealThinkingEnabled
+		);
+		const includeReasoning = thinking.includeReasoning;
+		const thinkingLevel = thinking.thinkingLevel;
+		const thinkingBudget = thinking.thinkingBudget ?? DEFAULT_THINKING_BUDGET; // Default to dynamic allocation
 
-		const tools = body.tools;
-		const tool_choice = body.tool_choice;
+		// Deprecated functions and function_call fields are accepted as tools and tool_choice
+		const tools = LegacyFunctionConverter.toTools(body);
+		const tool_choice = LegacyFunctionConverter.toToolChoice(body);
 
 		console.log("Request body parsed:", {
 			model,
 			messageCount: messages.length,
 			stream,
 			includeReasoning,
+			thinkingLevel,
 			thinkingBudget,
+			thinkingDisplay,
 			tools,
 			tool_choice
 		});
@@ -94,6 +208,46 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			return c.json({ error: "messages is a required field" }, 400);
 		}
 
+		// Checked before conversion, where an unanswered legacy result would lose its function name
+		const unmatchedFunctionResult = LegacyFunctionConverter.findUnmatchedResult(body.messages || []);
+		if (unmatchedFunctionResult) {
+			return c.json({ error: unmatchedFunctionResult }, 400);
+		}
+
+		const unmatchedToolResult = ToolResultMapper.findUnmatchedResult(messages);
+		if (unmatchedToolResult) {
+			return c.json({ error: unmatchedToolResult }, 400);
+		}
+
+		if (body.n !== undefined && (!Number.isInteger(body.n) || body.n < 1 || body.n > MAX_CANDIDATE_COUNT)) {
+			return c.json({ error: `n must be an integer between 1 and ${MAX_CANDIDATE_COUNT}` }, 400);
+		}
+
+		if (
+			body.tool_argument_validation !== undefined &&
+			!["off", "repair", "retry"].includes(body.tool_argument_validation)
+		) {
+			return c.json({ error: "tool_argument_validation must be one of off, repair or retry" }, 400);
+		}
+
+		if (body.thinking_level !== undefined && !GenerationConfigValidator.isValidThinkingLevel(body.thinking_level)) {
+			return c.json({ error: "thinking_level must be one of minimal, low, medium or high" }, 400);
+		}
+
+		const searchContextSize = body.web_search_options?.search_context_size;
+		if (searchContextSize !== undefined && !["low", "medium", "high"].includes(searchContextSize)) {
+			return c.json({ error: "web_search_options.search_context_size must be one of low, medium or high" }, 400);
+		}
+
+		if (body.response_format?.type === "json_schema" && typeof body.response_format.json_schema?.schema !== "object") {
+			return c.json({ error: "response_format.json_schema.schema is required for json_schema responses" }, 400);
+		}
+		const schemaError = GenerationConfigValidator.findSchemaError({ tools, response_format: body.response_format });
+		if (schemaError) {
+			return c.json({ error: schemaError }, 400);
+		}
+		const strictSchema = StructuredOutputValidator.getStrictSchema(body.response_format);
+
 		// Validate model
 		if (!(model in geminiCliModels)) {
 			return c.json(
@@ -121,20 +275,14 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			);
 		}
 
-		// Extract system prompt and user/assistant messages
-		let systemPrompt = "";
+		// Collect every system and developer message, in order, for Gemini's systemInstruction
+		const systemPrompt: MessageContent[] = [];
 		const otherMessages = messages.filter((msg) => {
-			if (msg.role === "system") {
-				// Handle system messages with both string and array content
+			if (msg.role === "system" || msg.role === "developer") {
 				if (typeof msg.content === "string") {
-					systemPrompt = msg.content;
+					systemPrompt.push({ type: "text", text: msg.content });
 				} else if (Array.isArray(msg.content)) {
-					// For system messages, only extract text content
-					const textContent = msg.content
-						.filter((part) => part.type === "text")
-						.map((part) => part.text || "")
-						.join(" ");
-					systemPrompt = textContent;
+					systemPrompt.push(...msg.content);
 				}
 				return false;
 			}
@@ -158,24 +306,49 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 		}
 
 		if (stream) {
+			const createStream = () =>
+				geminiClient.streamContent(model, systemPrompt, otherMessages, {
+					includeReasoning,
+					thinkingLevel,
+					thinkingBudget,
+					thinkingDisplay,
+					tools,
+					tool_choice,
+					...generationOptions
+				});
+			// Strict structured output holds an attempt back until it has been validated against the schema
+			const geminiStream = strictSchema
+				? StructuredOutputValidator.streamValidated(createStream, strictSchema)
+				: createStream();
+			// Nothing is released before validation, so output that never conforms still gets an error status
+			let firstChunk: IteratorResult<StreamChunk> | undefined;
+			if (strictSchema) {
+				try {
+					firstChunk = await geminiStream.next();
+				} catch (validationError: unknown) {
+					const errorMessage = validationError instanceof Error ? validationError.message : String(validationError);
+					console.error("Completion error:", errorMessage);
+					return c.json({ error: errorMessage }, 502);
+				}
+			}
+
 			// Streaming response
 			const { readable, writable } = new TransformStream();
 			const writer = writable.getWriter();
-			const openAITransformer = createOpenAIStreamTransformer(model);
+			const openAITransformer = createOpenAIStreamTransformer(
+				model,
+				body.stream_options?.include_usage,
+				thinkingDisplay.format
+			);
 			const openAIStream = readable.pipeThrough(openAITransformer);
 
 			// Asynchronously pipe data from Gemini to transformer
 			(async () => {
 				try {
 					console.log("Starting stream generation");
-					const geminiStream = geminiClient.streamContent(model, systemPrompt, otherMessages, {
-						includeReasoning,
-						thinkingBudget,
-						tools,
-						tool_choice,
-						...generationOptions
-					});
-
+					if (firstChunk && !firstChunk.done) {
+						await writer.write(firstChunk.value);
+					}
 					for await (const chunk of geminiStream) {
 						if (c.req.raw.signal.aborted) {
 							console.log("Client disconnected, stopping stream processing");
@@ -203,14 +376,14 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 								type: "text",
 								data: `Error: ${errorMessage}`
 							});
-						} catch (writeError) {
+						} catch {
 							// Ignore errors when trying to send error message to closed stream
 						}
 					}
 					
 					try {
 						await writer.close();
-					} catch (closeError) {
+					} catch {
 						// Ignore errors when closing an already closed/errored stream
 					}
 				}
@@ -232,39 +405,71 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			// Non-streaming response
 			try {
 				console.log("Starting non-streaming completion");
-				const completion = await geminiClient.getCompletion(model, systemPrompt, otherMessages, {
-					includeReasoning,
-					thinkingBudget,
-					tools,
-					tool_choice,
-					...generationOptions
-				});
+				const requestCompletion = () =>
+					geminiClient.getCompletion(model, systemPrompt, otherMessages, {
+						includeReasoning,
+						thinkingLevel,
+						thinkingBudget,
+						// Thoughts are collected as reasoning and placed in the requested format below
+						thinkingDisplay: { ...thinkingDisplay, format: "reasoning_content" },
+						tools,
+						tool_choice,
+						...generationOptions
+					});
+				let completion = await requestCompletion();
+				let discardedUsage: UsageData | undefined;
+
+				// Regenerate when strict structured output does not conform to the schema
+				for (let attempt = 0; strictSchema; attempt++) {
+					const errors = completion.candidates
+						.filter((candidate) => !candidate.tool_calls)
+						.flatMap((candidate) => StructuredOutputValidator.validateOutput(candidate.content, strictSchema));
+					if (errors.length === 0) {
+						break;
+					}
+					if (attempt >= STRICT_SCHEMA_MAX_RETRIES) {
+						const errorMessage = StructuredOutputValidator.createValidationError(errors).message;
+						console.error("Completion error:", errorMessage);
+						return c.json({ error: errorMessage }, 502);
+					}
+					console.warn(`[StructuredOutput] Output failed schema validation, retrying: ${errors.join("; ")}`);
+					if (completion.usage) {
+						discardedUsage = UsageMapper.add(discardedUsage, completion.usage);
+					}
+					completion = await requestCompletion();
+				}
 
 				const response: ChatCompletionResponse = {
 					id: `chatcmpl-${crypto.randomUUID()}`,
 					object: "chat.completion",
 					created: Math.floor(Date.now() / 1000),
 					model: model,
-					choices: [
-						{
-							index: 0,
-							message: {
-								role: "assistant",
-								content: completion.content,
-								tool_calls: completion.tool_calls
-							},
-							finish_reason: completion.tool_calls && completion.tool_calls.length > 0 ? "tool_calls" : "stop"
-						}
-					]
+					choices: completion.candidates.map((candidate) => ({
+						index: candidate.index,
+						message: {
+							role: "assistant",
+							content: candidate.content,
+							tool_calls: candidate.tool_calls,
+							native_tool_calls: candidate.native_tool_calls,
+							grounding: candidate.grounding,
+							annotations: candidate.annotations,
+							thought_signature: candidate.thought_signature,
+							...formatReasoning(candidate.reasoning, candidate.content, thinkingDisplay.format)
+						},
+						finish_reason: FinishReasonMapper.toOpenAI(candidate.finish, !!candidate.tool_calls),
+						native_finish_reason: candidate.finish?.reason,
+						safety_ratings: candidate.finish?.safetyRatings
+					})),
+					tool_configuration: completion.tool_configuration
 				};
 
-				// Add usage information if available
-				if (completion.usage) {
-					response.usage = {
-						prompt_tokens: completion.usage.inputTokens,
-						completion_tokens: completion.usage.outputTokens,
-						total_tokens: completion.usage.inputTokens + completion.usage.outputTokens
-					};
+				// Add usage information if available, including the attempts discarded by schema validation
+				const usage =
+					discardedUsage && completion.usage
+						? UsageMapper.add(discardedUsage, completion.usage)
+						: (completion.usage ?? discardedUsage);
+				if (usage) {
+					response.usage = UsageMapper.toOpenAI(usage);
 				}
 
 				console.log("Non-streaming completion successful");
@@ -281,3 +486,156 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 		return c.json({ error: errorMessage }, 500);
 	}
 });
+
+// Legacy text completions endpoint
+OpenAIRoute.post("/completions", async (c) => {
+	try {
+		console.log("Text completions request received");
+		const body = await c.req.json<CompletionRequest>();
+		const model = body.model || DEFAULT_MODEL;
+		const stream = body.stream === true;
+
+		// Token arrays cannot be mapped back to text, only string prompts are supported
+		const prompts = typeof body.prompt === "string" ? [body.prompt] : body.prompt;
+		if (!Array.isArray(prompts) || prompts.length === 0 || prompts.some((prompt) => typeof prompt !== "string")) {
+			return c.json({ error: "prompt must be a string or an array of strings" }, 400);
+		}
+
+		// Validate model
+		if (!(model in geminiCliModels)) {
+			return c.json(
+				{
+					error: `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}`
+				},
+				400
+			);
+		}
+
+		// Each prompt becomes a single user turn, continued according to the completion instructions
+		const systemPrompt = body.suffix
+			? `${TEXT_COMPLETION_SYSTEM_PROMPT}\n\n${TEXT_COMPLETION_SUFFIX_PROMPT.replace("{suffix}", body.suffix)}`
+			: TEXT_COMPLETION_SYSTEM_PROMPT;
+		// Text completions have no place for thoughts, so the thinking defaults of the environment do not apply
+		const thinkingDisplay: ThinkingDisplay = { mode: "off", format: "reasoning_content", fakeThinking: false };
+		const options = {
+			includeReasoning: false,
+			thinkingDisplay,
+			max_tokens: body.max_tokens,
+			temperature: body.temperature,
+			top_p: body.top_p,
+			stop: body.stop,
+			presence_penalty: body.presence_penalty,
+			frequency_penalty: body.frequency_penalty,
+			seed: body.seed
+		};
+
+		// Initialize services
+		const authManager = new AuthManager(c.env);
+		// Rotate credentials, ensuring we use one allowed for the requested model
+		await authManager.rotateCredentials("normal", undefined, model);
+		const geminiClient = new GeminiApiClient(c.env, authManager);
+
+		try {
+			await authManager.initializeAuth();
+		} catch (authError: unknown) {
+			const errorMessage = authError instanceof Error ? authError.message : String(authError);
+			console.error("Authentication failed:", errorMessage);
+			return c.json({ error: "Authentication failed: " + errorMessage }, 401);
+		}
+
+		if (stream) {
+			const { readable, writable } = new TransformStream<IndexedStreamChunk, IndexedStreamChunk>();
+			const writer = writable.getWriter();
+			const completionStream = readable.pipeThrough(
+				createOpenAICompletionStreamTransformer(model, body.stream_options?.include_usage)
+			);
+
+			// Asynchronously pipe data from Gemini to transformer, one prompt after another
+			(async () => {
+				let index = 0;
+				try {
+					for (; index < prompts.length; index++) {
+						const prompt = prompts[index];
+						if (body.echo) {
+							await writer.write({ index, chunk: { type: "text", data: prompt } });
+						}
+						const messages = [{ role: "user", content: prompt }];
+						for await (const chunk of geminiClient.streamContent(model, systemPrompt, messages, options)) {
+							if (c.req.raw.signal.aborted) {
+								console.log("Client disconnected, stopping stream processing");
+								break;
+							}
+							await writer.write({ index, chunk });
+						}
+					}
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Text completion stream error:", errorMessage);
+					try {
+						await writer.write({ index, chunk: { type: "text", data: `Error: ${errorMessage}` } });
+						await writer.close();
+					} catch {
+						// Ignore errors when the client has already gone away
+					}
+				}
+			})();
+
+			return new Response(completionStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+					"Access-Control-Allow-Headers": "Content-Type, Authorization"
+				}
+			});
+		}
+
+		// Non-streaming response
+		try {
+			const response: CompletionResponse = {
+				id: `cmpl-${crypto.randomUUID()}`,
+				object: "text_completion",
+				created: Math.floor(Date.now() / 1000),
+				model: model,
+				choices: []
+			};
+			let totalUsage: UsageData | undefined;
+
+			for (const [index, prompt] of prompts.entries()) {
+				const completion = await geminiClient.getCompletion(
+					model,
+					systemPrompt,
+					[{ role: "user", content: prompt }],
+					options
+				);
+				response.choices.push({
+					text: body.echo ? prompt + completion.content : completion.content,
+					index,
+					logprobs: null,
+					finish_reason: FinishReasonMapper.toOpenAI(completion.candidates[0].finish, false)
+				});
+				if (completion.usage) {
+					totalUsage = UsageMapper.add(totalUsage, completion.usage);
+				}
+			}
+
+			// Add usage information if available
+			if (totalUsage) {
+				response.usage = UsageMapper.toOpenAI(totalUsage);
+			}
+
+			return c.json(response);
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Text completion error:", errorMessage);
+			return c.json({ error: errorMessage }, 500);
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json({ error: errorMessage }, 500);
+	}
+});
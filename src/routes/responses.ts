@@ -0,0 +1,187 @@
+import { Hono } from "hono";
+import { Env, StreamChunk } from "../types";
+import { ResponsesRequest } from "../types/responses";
+import { geminiCliModels, DEFAULT_MODEL, getAllModelIds } from "../models";
+import { AuthManager } from "../auth";
+import { GeminiApiClient } from "../gemini-client";
+import { GenerationConfigValidator } from "../helpers/generation-config-validator";
+import { ResponsesInputConverter } from "../helpers/responses-input-converter";
+import { StructuredOutputValidator } from "../helpers/structured-output-validator";
+import { ThinkingDisplayResolver } from "../helpers/thinking-display-resolver";
+import { ToolResultMapper } from "../helpers/tool-result-mapper";
+import { ResponsesOutputBuilder, createResponsesStreamTransformer } from "../responses-stream-transformer";
+
+/**
+ * OpenAI Responses API compatible routes.
+ */
+export const ResponsesRoute = new Hono<{ Bindings: Env }>();
+
+// Responses endpoint
+ResponsesRoute.post("/responses", async (c) => {
+	try {
+		console.log("Responses request received");
+		const body = await c.req.json<ResponsesRequest>();
+		const model = body.model || DEFAULT_MODEL;
+		// Unlike chat completions, the Responses API only streams when asked to
+		const stream = body.stream === true;
+
+		if (body.input === undefined || (Array.isArray(body.input) && body.input.length === 0)) {
+			return c.json({ error: "input is a required field" }, 400);
+		}
+
+		// Validate model
+		if (!(model in geminiCliModels)) {
+			return c.json(
+				{
+					error: `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}`
+				},
+				400
+			);
+		}
+
+		const { systemPrompt, messages } = ResponsesInputConverter.toChatMessages(body);
+		if (!messages.length) {
+			return c.json({ error: "input must contain at least one user, assistant or tool item" }, 400);
+		}
+		const unmatchedToolResult = ToolResultMapper.findUnmatchedResult(messages);
+		if (unmatchedToolResult) {
+			return c.json({ error: unmatchedToolResult }, 400);
+		}
+
+		const hasImages = messages.some(
+			(msg) => Array.isArray(msg.content) && msg.content.some((content) => content.type === "image_url")
+		);
+		if (hasImages && !geminiCliModels[model].supportsImages) {
+			return c.json({ error: `Model '${model}' does not support image inputs.` }, 400);
+		}
+
+		// Thoughts are returned as reasoning items, or as text in <thinking> tags, allowed clients may override the default
+		const { requested, client } = ThinkingDisplayResolver.readRequest(body, (name) => c.req.header(name));
+		const thinkingError = ThinkingDisplayResolver.validate(requested, ["reasoning_content", "think_tags"]);
+		if (thinkingError) {
+			return c.json({ error: thinkingError }, 400);
+		}
+		const thinkingDisplay = ThinkingDisplayResolver.resolve(c.env, requested, client);
+
+		// Reasoning effort maps onto the thinking level or budget the same way as chat completions
+		const { includeReasoning, thinkingLevel, thinkingBudget } = GenerationConfigValidator.resolveThinking(
+			model,
+			{ reasoning_effort: body.reasoning?.effort },
+			thinkingDisplay.mode !== "off"
+		);
+
+		const { tools, enableSearch } = ResponsesInputConverter.toChatTools(body.tools);
+		const format = body.text?.format;
+		if (format?.type === "json_schema" && typeof format.schema !== "object") {
+			return c.json({ error: "text.format.schema is required for json_schema responses" }, 400);
+		}
+		const responseFormat = ResponsesInputConverter.toResponseFormat(format);
+		const schemaError = GenerationConfigValidator.findSchemaError({ tools, response_format: responseFormat });
+		if (schemaError) {
+			return c.json({ error: schemaError }, 400);
+		}
+		const strictSchema = StructuredOutputValidator.getStrictSchema(responseFormat);
+		const options = {
+			includeReasoning,
+			thinkingLevel,
+			thinkingBudget,
+			thinkingDisplay,
+			tools,
+			tool_choice: ResponsesInputConverter.toChatToolChoice(body.tool_choice),
+			parallel_tool_calls: body.parallel_tool_calls,
+			max_tokens: body.max_output_tokens,
+			temperature: body.temperature,
+			top_p: body.top_p,
+			response_format: responseFormat,
+			enable_search: enableSearch
+		};
+
+		const builder = new ResponsesOutputBuilder(model, {
+			instructions: body.instructions ?? null,
+			tools: body.tools || [],
+			tool_choice: body.tool_choice || "auto",
+			parallel_tool_calls: body.parallel_tool_calls ?? true,
+			temperature: body.temperature ?? null,
+			top_p: body.top_p ?? null,
+			max_output_tokens: body.max_output_tokens ?? null,
+			metadata: body.metadata || {},
+			text: { format: format || { type: "text" } }
+		});
+
+		// Initialize services
+		const authManager = new AuthManager(c.env);
+		// Rotate credentials, ensuring we use one allowed for the requested model
+		await authManager.rotateCredentials("normal", undefined, model);
+		const geminiClient = new GeminiApiClient(c.env, authManager);
+
+		try {
+			await authManager.initializeAuth();
+		} catch (authError: unknown) {
+			const errorMessage = authError instanceof Error ? authError.message : String(authError);
+			console.error("Authentication failed:", errorMessage);
+			return c.json({ error: "Authentication failed: " + errorMessage }, 401);
+		}
+
+		// Strict structured output holds text back until it has been validated against the schema
+		const createStream = () => geminiClient.streamContent(model, systemPrompt, messages, options);
+		const contentStream = () =>
+			strictSchema ? StructuredOutputValidator.streamValidated(createStream, strictSchema) : createStream();
+
+		if (stream) {
+			const { readable, writable } = new TransformStream<StreamChunk, StreamChunk>();
+			const writer = writable.getWriter();
+			const responsesStream = readable.pipeThrough(createResponsesStreamTransformer(builder));
+
+			// Asynchronously pipe data from Gemini to transformer
+			(async () => {
+				try {
+					for await (const chunk of contentStream()) {
+						if (c.req.raw.signal.aborted) {
+							console.log("Client disconnected, stopping stream processing");
+							break;
+						}
+						await writer.write(chunk);
+					}
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Responses stream error:", errorMessage);
+					try {
+						await writer.write({ type: "error", data: errorMessage });
+						await writer.close();
+					} catch {
+						// Ignore errors when the client has already gone away
+					}
+				}
+			})();
+
+			return new Response(responsesStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+					"Access-Control-Allow-Headers": "Content-Type, Authorization"
+				}
+			});
+		}
+
+		// Non-streaming response
+		try {
+			for await (const chunk of contentStream()) {
+				builder.process(chunk);
+			}
+			builder.finish();
+			return c.json(builder.getResponse());
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Responses completion error:", errorMessage);
+			return c.json({ error: errorMessage }, 500);
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json({ error: errorMessage }, 500);
+	}
+});
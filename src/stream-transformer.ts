@@ -1,16 +1,37 @@
-import { StreamChunk, ReasoningData, GeminiFunctionCall, UsageData } from "./types";
-import { NativeToolResponse } from "./types/native-tools";
-import { OPENAI_CHAT_COMPLETION_OBJECT } from "./config";
+import {
+	StreamChunk,
+	ReasoningData,
+	GeminiFunctionCall,
+	UsageData,
+	FinishReasonData,
+	GeminiSafetyRating,
+	ChatCompletionUsage,
+	ThinkingBlock,
+	ThinkingFormat
+} from "./types";
+import {
+	GroundingMetadata,
+	NativeToolResponse,
+	ToolConfigurationMetadata,
+	UrlCitationAnnotation
+} from "./types/native-tools";
+import { OPENAI_CHAT_COMPLETION_OBJECT, OPENAI_TEXT_COMPLETION_OBJECT } from "./config";
+import { FinishReasonMapper } from "./helpers/finish-reason-mapper";
+import { UsageMapper } from "./helpers/usage-mapper";
+import { CitationsProcessor } from "./helpers/citations-processor";
 
 // OpenAI API interfaces
+// Only the first delta of a tool call carries its id, type and name
 interface OpenAIToolCall {
 	index: number;
-	id: string;
-	type: "function";
+	id?: string;
+	type?: "function";
 	function: {
-		name: string;
+		name?: string;
 		arguments: string;
 	};
+	validation_errors?: string[];
+	thought_signature?: string;
 }
 
 interface OpenAIChoice {
@@ -26,9 +47,12 @@ interface OpenAIDelta {
 	content?: string | null;
 	reasoning?: string;
 	reasoning_content?: string | null;
+	thinking_blocks?: ThinkingBlock[];
 	tool_calls?: OpenAIToolCall[];
 	native_tool_calls?: NativeToolResponse[];
 	grounding?: unknown;
+	annotations?: UrlCitationAnnotation[];
+	thought_signature?: string;
 }
 
 interface OpenAIChunk {
@@ -44,12 +68,42 @@ interface OpenAIFinalChoice {
 	index: number;
 	delta: Record<string, never>;
 	finish_reason: string;
+	native_finish_reason?: string;
+	safety_ratings?: GeminiSafetyRating[];
+}
+
+interface OpenAICompletionChoice {
+	text: string;
+	index: number;
+	logprobs: null;
+	finish_reason: string | null;
+}
+
+interface OpenAICompletionChunk {
+	id: string;
+	object: string;
+	created: number;
+	model: string;
+	choices: OpenAICompletionChoice[];
+	usage?: ChatCompletionUsage;
+}
+
+/**
+ * A stream chunk tagged with the index of the prompt it belongs to.
+ */
+export interface IndexedStreamChunk {
+	index: number;
+	chunk: StreamChunk;
 }
 
-interface OpenAIUsage {
-	prompt_tokens: number;
-	completion_tokens: number;
-	total_tokens: number;
+// Streaming state of a single choice, its content and grounding are kept to place citations
+interface ChoiceState {
+	firstChunk: boolean;
+	toolCallCount: number;
+	content: string;
+	citations?: GroundingMetadata;
+	annotationKeys: Set<string>;
+	finish?: FinishReasonData;
 }
 
 interface OpenAIFinalChunk {
@@ -58,7 +112,8 @@ interface OpenAIFinalChunk {
 	created: number;
 	model: string;
 	choices: OpenAIFinalChoice[];
-	usage?: OpenAIUsage;
+	usage?: ChatCompletionUsage;
+	tool_configuration?: ToolConfigurationMetadata;
 }
 
 // Type guard functions
@@ -77,72 +132,159 @@ function isNativeToolResponse(data: unknown): data is NativeToolResponse {
 	return typeof data === "object" && data !== null && "type" in data && "data" in data;
 }
 
+function isFinishReasonData(data: unknown): data is FinishReasonData {
+	return typeof data === "object" && data !== null && "reason" in data;
+}
+
+/**
+ * Creates the annotations of a choice's grounding that were not sent yet.
+ * Gemini may extend its grounding while streaming, and a segment can only be placed once its text was sent.
+ */
+function takeNewAnnotations(choice: ChoiceState): UrlCitationAnnotation[] {
+	if (!choice.citations) {
+		return [];
+	}
+	return CitationsProcessor.createAnnotations(choice.content, choice.citations).filter((annotation) => {
+		const key = JSON.stringify(annotation.url_citation);
+		const isNew = !choice.annotationKeys.has(key);
+		choice.annotationKeys.add(key);
+		return isNew;
+	});
+}
+
+/**
+ * Places the usage of a finished stream the way the client asked for it.
+ * With stream_options.include_usage the usage follows in the OpenAI-standard trailing chunk with
+ * empty choices; by default it is attached to the final chunk, and an explicit false omits it.
+ * @returns The trailing usage chunk to send after the final chunk, if any
+ */
+function placeUsage<T extends { choices: unknown[]; usage?: ChatCompletionUsage }>(
+	finalChunk: T,
+	usage: ChatCompletionUsage | undefined,
+	includeUsage: boolean | undefined
+): T | undefined {
+	if (!usage || includeUsage === false) {
+		return undefined;
+	}
+	if (includeUsage === undefined) {
+		finalChunk.usage = usage;
+		return undefined;
+	}
+	return { ...finalChunk, choices: [], usage };
+}
+
+/**
+ * Adds reasoning to a delta in the requested thinking format.
+ */
+function addReasoning(delta: OpenAIDelta, reasoning: string, thinkingFormat: ThinkingFormat): void {
+	if (thinkingFormat === "anthropic_blocks") {
+		delta.thinking_blocks = [{ type: "thinking", thinking: reasoning }];
+		return;
+	}
+	// Map to reasoning_content for standard compliance with thinking models
+	delta.reasoning_content = reasoning;
+	// Keep reasoning for backward compatibility
+	delta.reasoning = reasoning;
+}
+
 /**
  * Creates a TransformStream to convert Gemini's output chunks
  * into OpenAI-compatible server-sent events.
+ * @param includeUsage - The client's stream_options.include_usage setting
+ * @param thinkingFormat - How reasoning is sent, thoughts sent as content need no mapping
  */
-export function createOpenAIStreamTransformer(model: string): TransformStream<StreamChunk, Uint8Array> {
+export function createOpenAIStreamTransformer(
+	model: string,
+	includeUsage?: boolean,
+	thinkingFormat: ThinkingFormat = "reasoning_content"
+): TransformStream<StreamChunk, Uint8Array> {
 	const chatID = `chatcmpl-${crypto.randomUUID()}`;
 	const creationTime = Math.floor(Date.now() / 1000);
 	const encoder = new TextEncoder();
-	let firstChunk = true;
-	let toolCallId: string | null = null;
-	let toolCallName: string | null = null;
+	// Each choice tracks whether it has sent its role, how many tool calls it produced and why it finished
+	const choices = new Map<number, ChoiceState>();
 	let usageData: UsageData | undefined;
+	let toolConfiguration: ToolConfigurationMetadata | undefined;
 
 	return new TransformStream({
 		transform(chunk, controller) {
+			if (chunk.type === "tool_configuration") {
+				// Reported with the final chunk, like usage
+				toolConfiguration = chunk.data as ToolConfigurationMetadata;
+				return;
+			}
 			const delta: OpenAIDelta = {};
-			let openAIChunk: OpenAIChunk | null = null;
+			const index = chunk.index ?? 0;
+			let choice = choices.get(index);
+			if (!choice) {
+				choice = { firstChunk: true, toolCallCount: 0, content: "", annotationKeys: new Set() };
+				choices.set(index, choice);
+			}
+			const send = (choiceDelta: OpenAIDelta) => {
+				const openAIChunk: OpenAIChunk = {
+					id: chatID,
+					object: OPENAI_CHAT_COMPLETION_OBJECT,
+					created: creationTime,
+					model: model,
+					choices: [
+						{
+							index,
+							delta: choiceDelta,
+							finish_reason: null,
+							logprobs: null,
+							matched_stop: null
+						}
+					],
+					usage: null
+				};
+				controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
+			};
 
 			switch (chunk.type) {
 				case "text":
 				case "thinking_content":
 					if (typeof chunk.data === "string") {
 						delta.content = chunk.data;
-						if (firstChunk) {
+						choice.content += chunk.data;
+						if (choice.firstChunk) {
 							delta.role = "assistant";
-							firstChunk = false;
+							choice.firstChunk = false;
 						}
 					}
 					break;
 				case "real_thinking":
 					if (typeof chunk.data === "string") {
-						// Map to reasoning_content for standard compliance with thinking models
-						delta.reasoning_content = chunk.data;
-						// Keep reasoning for backward compatibility
-						delta.reasoning = chunk.data;
+						addReasoning(delta, chunk.data, thinkingFormat);
 					}
 					break;
 				case "reasoning":
 					if (isReasoningData(chunk.data)) {
-						// Map to reasoning_content for standard compliance with thinking models
-						delta.reasoning_content = chunk.data.reasoning;
-						// Keep reasoning for backward compatibility
-						delta.reasoning = chunk.data.reasoning;
+						addReasoning(delta, chunk.data.reasoning, thinkingFormat);
 					}
 					break;
 				case "tool_code":
 					if (isGeminiFunctionCall(chunk.data)) {
 						const toolData = chunk.data;
-						toolCallName = toolData.name;
-						toolCallId = `call_${crypto.randomUUID()}`;
+						const toolCallIndex = choice.toolCallCount++;
+						// Announce the call first, then stream its arguments like OpenAI does
 						delta.tool_calls = [
 							{
-								index: 0,
-								id: toolCallId,
+								index: toolCallIndex,
+								id: toolData.id || `call_${crypto.randomUUID()}`,
 								type: "function",
-								function: {
-									name: toolCallName,
-									arguments: JSON.stringify(toolData.args)
-								}
+								function: { name: toolData.name, arguments: "" },
+								validation_errors: toolData.validationErrors,
+								thought_signature: toolData.thoughtSignature
 							}
 						];
-						if (firstChunk) {
+						if (choice.firstChunk) {
 							delta.role = "assistant";
 							delta.content = null;
-							firstChunk = false;
+							choice.firstChunk = false;
 						}
+						send(delta);
+						send({ tool_calls: [{ index: toolCallIndex, function: { arguments: JSON.stringify(toolData.args) } }] });
+						return;
 					}
 					break;
 				case "native_tool":
@@ -155,6 +297,25 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 						delta.grounding = chunk.data;
 					}
 					break;
+				case "thought_signature":
+					if (typeof chunk.data === "string") {
+						delta.thought_signature = chunk.data;
+					}
+					break;
+				case "citations":
+					if (chunk.data) {
+						choice.citations = chunk.data as GroundingMetadata;
+						const annotations = takeNewAnnotations(choice);
+						if (annotations.length > 0) {
+							delta.annotations = annotations;
+						}
+					}
+					break;
+				case "finish":
+					if (isFinishReasonData(chunk.data)) {
+						choice.finish = chunk.data;
+					}
+					return; // Reported with the final chunk of the choice
 				case "usage":
 					if (isUsageData(chunk.data)) {
 						usageData = chunk.data;
@@ -163,44 +324,125 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 			}
 
 			if (Object.keys(delta).length > 0) {
-				openAIChunk = {
-					id: chatID,
-					object: OPENAI_CHAT_COMPLETION_OBJECT,
-					created: creationTime,
-					model: model,
-					choices: [
-						{
-							index: 0,
-							delta: delta,
-							finish_reason: null,
-							logprobs: null,
-							matched_stop: null
-						}
-					],
-					usage: null
-				};
-				controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
+				send(delta);
 			}
 		},
 		flush(controller) {
-			const finishReason = toolCallId ? "tool_calls" : "stop";
-			const finalChunk: OpenAIFinalChunk = {
+			const finishedChoices = [...choices.entries()].sort(([a], [b]) => a - b);
+			if (finishedChoices.length === 0) {
+				finishedChoices.push([0, { firstChunk: true, toolCallCount: 0, content: "", annotationKeys: new Set() }]);
+			}
+
+			// Segments whose text was still held back when the grounding arrived can be placed now
+			for (const [index, choice] of finishedChoices) {
+				const annotations = takeNewAnnotations(choice);
+				if (annotations.length > 0) {
+					const annotationChunk: OpenAIChunk = {
+						id: chatID,
+						object: OPENAI_CHAT_COMPLETION_OBJECT,
+						created: creationTime,
+						model: model,
+						choices: [{ index, delta: { annotations }, finish_reason: null, logprobs: null, matched_stop: null }],
+						usage: null
+					};
+					controller.enqueue(encoder.encode(`data: ${JSON.stringify(annotationChunk)}\n\n`));
+				}
+			}
+
+			// Every choice is finished separately, usage is reported once after the last one
+			const finalChunks: OpenAIFinalChunk[] = finishedChoices.map(([index, choice]) => ({
 				id: chatID,
 				object: OPENAI_CHAT_COMPLETION_OBJECT,
 				created: creationTime,
 				model: model,
-				choices: [{ index: 0, delta: {}, finish_reason: finishReason }]
-			};
+				choices: [
+					{
+						index,
+						delta: {},
+						finish_reason: FinishReasonMapper.toOpenAI(choice.finish, choice.toolCallCount > 0),
+						native_finish_reason: choice.finish?.reason,
+						safety_ratings: choice.finish?.safetyRatings
+					}
+				]
+			}));
+			finalChunks[0].tool_configuration = toolConfiguration;
+			const usageChunk = placeUsage(
+				finalChunks[finalChunks.length - 1],
+				usageData && UsageMapper.toOpenAI(usageData),
+				includeUsage
+			);
+			if (usageChunk) {
+				finalChunks.push(usageChunk);
+			}
 
-			if (usageData) {
-				finalChunk.usage = {
-					prompt_tokens: usageData.inputTokens,
-					completion_tokens: usageData.outputTokens,
-					total_tokens: usageData.inputTokens + usageData.outputTokens
-				};
+			for (const chunk of finalChunks) {
+				controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
 			}
+			controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+		}
+	});
+}
 
-			controller.enqueue(encoder.encode(`data: ${JSON.stringify(finalChunk)}\n\n`));
+/**
+ * Creates a TransformStream to convert Gemini's output chunks for one or more prompts
+ * into OpenAI-compatible legacy text completion server-sent events.
+ * @param includeUsage - The client's stream_options.include_usage setting
+ */
+export function createOpenAICompletionStreamTransformer(
+	model: string,
+	includeUsage?: boolean
+): TransformStream<IndexedStreamChunk, Uint8Array> {
+	const completionID = `cmpl-${crypto.randomUUID()}`;
+	const creationTime = Math.floor(Date.now() / 1000);
+	const encoder = new TextEncoder();
+	const usageByIndex = new Map<number, UsageData>();
+	const finishByIndex = new Map<number, FinishReasonData>();
+	let currentIndex: number | null = null;
+
+	const send = (controller: TransformStreamDefaultController<Uint8Array>, chunk: OpenAICompletionChunk) => {
+		controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+	};
+	const createChunk = (index: number, text: string, finishReason: string | null): OpenAICompletionChunk => ({
+		id: completionID,
+		object: OPENAI_TEXT_COMPLETION_OBJECT,
+		created: creationTime,
+		model: model,
+		choices: [{ text, index, logprobs: null, finish_reason: finishReason }]
+	});
+
+	// Text completions have no tool calls, so only stop, length and content_filter apply
+	const finishReason = (index: number) => FinishReasonMapper.toOpenAI(finishByIndex.get(index), false);
+
+	return new TransformStream({
+		transform({ index, chunk }, controller) {
+			// Prompts are streamed one after another, so a new index finishes the previous choice
+			if (currentIndex !== null && currentIndex !== index) {
+				send(controller, createChunk(currentIndex, "", finishReason(currentIndex)));
+			}
+			currentIndex = index;
+
+			if (chunk.type === "text" && typeof chunk.data === "string" && chunk.data) {
+				send(controller, createChunk(index, chunk.data, null));
+			} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+				usageByIndex.set(index, chunk.data);
+			} else if (chunk.type === "finish" && isFinishReasonData(chunk.data)) {
+				finishByIndex.set(index, chunk.data);
+			}
+			// Reasoning and tool chunks have no representation in text completions
+		},
+		flush(controller) {
+			const finalChunk = createChunk(currentIndex ?? 0, "", finishReason(currentIndex ?? 0));
+
+			let totalUsage: UsageData | undefined;
+			for (const usage of usageByIndex.values()) {
+				totalUsage = UsageMapper.add(totalUsage, usage);
+			}
+			const usageChunk = placeUsage(finalChunk, totalUsage && UsageMapper.toOpenAI(totalUsage), includeUsage);
+
+			send(controller, finalChunk);
+			if (usageChunk) {
+				send(controller, usageChunk);
+			}
 			controller.enqueue(encoder.encode("data: [DONE]\n\n"));
 		}
 	});
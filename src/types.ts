@@ -1,4 +1,10 @@
-import { NativeToolResponse } from "./types/native-tools";
+import {
+	GroundingMetadata,
+	NativeToolResponse,
+	SearchContextSize,
+	ToolConfigurationMetadata,
+	UrlCitationAnnotation
+} from "./types/native-tools";
 import { Context } from "hono";
 import { Logger } from "./utils/logger";
 
@@ -20,6 +26,8 @@ export interface Env {
 	ENABLE_REAL_THINKING?: string; // Optional flag to enable real Gemini thinking output (set to "true" to enable)
 	STREAM_THINKING_AS_CONTENT?: string; // Optional flag to stream thinking as content with <thinking> tags (set to "true" to enable)
 	ENABLE_AUTO_MODEL_SWITCHING?: string; // Optional flag to enable automatic fallback from pro to flash on 429 errors (set to "true" to enable)
+	TOOL_ARGUMENT_VALIDATION?: string; // Default tool argument validation mode: off, repair or retry (default: off)
+	THINKING_OVERRIDE_CLIENTS?: string; // Comma-separated X-Client-Id values allowed to override thinking_mode and thinking_format, "*" for all (default: none)
 	GEMINI_MODERATION_HARASSMENT_THRESHOLD?: SafetyThreshold;
 	GEMINI_MODERATION_HATE_SPEECH_THRESHOLD?: SafetyThreshold;
 	GEMINI_MODERATION_SEXUALLY_EXPLICIT_THRESHOLD?: SafetyThreshold;
@@ -29,7 +37,9 @@ export interface Env {
 	ENABLE_GEMINI_NATIVE_TOOLS?: string; // Enable native Gemini tools (default: false)
 	ENABLE_GOOGLE_SEARCH?: string; // Enable Google Search tool (default: false)
 	ENABLE_URL_CONTEXT?: string; // Enable URL Context tool (default: false)
-	GEMINI_TOOLS_PRIORITY?: string; // Tool priority strategy (native_first, custom_first, user_choice)
+	ENABLE_CODE_EXECUTION?: string; // Enable Code Execution tool (default: false)
+	INLINE_CODE_EXECUTION?: string; // Render code execution parts as fenced blocks in the content (default: false)
+	GEMINI_TOOLS_PRIORITY?: string; // Tool priority strategy (native_first, custom_first, user_choice, mixed)
 	DEFAULT_TO_NATIVE_TOOLS?: string; // Default behavior when no custom tools provided (default: true)
 	ALLOW_REQUEST_TOOL_CONTROL?: string; // Allow request-level tool control (default: true)
 
@@ -77,35 +87,106 @@ export interface ModelInfo {
 	outputPrice: number;
 	description: string;
 	thinking: boolean; // Indicates if the model supports thinking
+	thinkingCapabilities?: ThinkingCapabilities;
+	supportsMixedTools?: boolean; // Accepts native tools alongside function declarations in one request
+}
+
+// Thinking settings a model accepts
+export interface ThinkingCapabilities {
+	minBudget: number;
+	maxBudget: number;
+	canDisable: boolean; // Accepts a thinking budget of 0
+	thinkingLevels?: ThinkingLevel[]; // Set when the model is configured with a thinkingLevel rather than a budget
 }
 
 // --- Chat Completion Request Interface ---
-export type EffortLevel = "none" | "low" | "medium" | "high";
+export type EffortLevel = "none" | "minimal" | "low" | "medium" | "high";
+export type ThinkingLevel = "minimal" | "low" | "medium" | "high";
+
+// off hides thoughts, summary keeps only the heading of each thought and raw sends them in full
+export type ThinkingMode = "off" | "summary" | "raw";
+export type ThinkingFormat = "reasoning_content" | "think_tags" | "anthropic_blocks";
+
+// How the thoughts of a request are returned, defaults come from the environment
+export interface ThinkingDisplay {
+	mode: ThinkingMode;
+	format: ThinkingFormat;
+	fakeThinking: boolean; // Only from ENABLE_FAKE_THINKING, a request override turns it off
+}
+
+// Anthropic-style thinking block, as used by LiteLLM compatible clients
+export interface ThinkingBlock {
+	type: "thinking";
+	thinking: string;
+}
+
+export interface FunctionDefinition {
+	name: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+}
 
 export interface Tool {
 	type: "function";
-	function: {
-		name: string;
-		description?: string;
-		parameters?: Record<string, unknown>;
-	};
+	function: FunctionDefinition;
+}
+
+// off forwards arguments unchanged, repair coerces simple mismatches and marks calls that stay invalid,
+// retry additionally regenerates the response once when a call cannot be repaired
+export type ToolArgumentValidationMode = "off" | "repair" | "retry";
+
+export type ToolChoice = "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+
+// Deprecated function_call request field, superseded by tool_choice
+export type FunctionCallChoice = "none" | "auto" | { name: string };
+
+export interface StreamOptions {
+	include_usage?: boolean;
+}
+
+// Google Search has no location setting, user_location is accepted and ignored
+export interface WebSearchOptions {
+	search_context_size?: SearchContextSize;
+	user_location?: unknown;
+}
+
+export interface JsonSchemaFormat {
+	name?: string;
+	description?: string;
+	schema?: Record<string, unknown>;
+	strict?: boolean; // Validate the final output against the schema
 }
 
-export type ToolChoice = "none" | "auto" | { type: "function"; function: { name: string } };
+export type ResponseFormat =
+	| { type: "text" }
+	| { type: "json_object" }
+	| { type: "json_schema"; json_schema: JsonSchemaFormat };
 
 export interface ChatCompletionRequest {
 	model: string;
 	messages: ChatMessage[];
 	stream?: boolean;
 	thinking_budget?: number; // Optional thinking token budget
+	thinking_level?: ThinkingLevel; // Optional thinking level, takes precedence over reasoning_effort
 	reasoning_effort?: EffortLevel; // Optional effort level for thinking
+	thinking_mode?: ThinkingMode; // Overrides the thinking visibility, for allowed clients only
+	thinking_format?: ThinkingFormat; // Overrides how thoughts are returned, for allowed clients only
 	tools?: Tool[];
 	tool_choice?: ToolChoice;
+	functions?: FunctionDefinition[]; // Deprecated, superseded by tools
+	function_call?: FunctionCallChoice; // Deprecated, superseded by tool_choice
+	parallel_tool_calls?: boolean;
+	tool_argument_validation?: ToolArgumentValidationMode;
+	web_search_options?: WebSearchOptions; // Enables Google Search like enable_search
+	stream_options?: StreamOptions;
+	n?: number; // Number of choices to generate
 	// Support for common custom parameter locations
 	extra_body?: {
 		reasoning_effort?: EffortLevel;
 		enable_search?: boolean;
 		enable_url_context?: boolean;
+		enable_code_execution?: boolean;
+		inline_code_execution?: boolean;
 		enable_native_tools?: boolean;
 		native_tools_priority?: "native" | "custom" | "mixed";
 	};
@@ -113,6 +194,8 @@ export interface ChatCompletionRequest {
 		reasoning_effort?: EffortLevel;
 		enable_search?: boolean;
 		enable_url_context?: boolean;
+		enable_code_execution?: boolean;
+		inline_code_execution?: boolean;
 		enable_native_tools?: boolean;
 		native_tools_priority?: "native" | "custom" | "mixed";
 	};
@@ -124,16 +207,19 @@ export interface ChatCompletionRequest {
 	presence_penalty?: number;
 	frequency_penalty?: number;
 	seed?: number;
-	response_format?: {
-		type: "text" | "json_object";
-	};
+	response_format?: ResponseFormat;
 	// Native Tools flags
 	enable_search?: boolean;
 	enable_url_context?: boolean;
+	enable_code_execution?: boolean;
+	inline_code_execution?: boolean; // Also render code execution parts as fenced blocks in the content
 	enable_native_tools?: boolean;
 	native_tools_priority?: "native" | "custom" | "mixed";
 }
 
+// A system prompt is plain text or multimodal content sent as Gemini's systemInstruction
+export type SystemPrompt = string | MessageContent[];
+
 export interface ToolCall {
 	id: string;
 	type: "function";
@@ -141,6 +227,8 @@ export interface ToolCall {
 		name: string;
 		arguments: string;
 	};
+	validation_errors?: string[]; // Set when the arguments do not match the declared schema
+	thought_signature?: string; // Opaque, sent back with the call so thinking models keep their reasoning
 }
 
 export interface ChatMessage {
@@ -148,6 +236,9 @@ export interface ChatMessage {
 	content: string | MessageContent[];
 	tool_calls?: ToolCall[];
 	tool_call_id?: string;
+	name?: string; // Function name of a deprecated "function" role result
+	function_call?: { name: string; arguments: string }; // Deprecated, superseded by tool_calls
+	thought_signature?: string; // Echoed from an assistant response
 }
 
 export interface MessageContent {
@@ -167,36 +258,107 @@ export interface ChatCompletionResponse {
 	model: string;
 	choices: ChatCompletionChoice[];
 	usage?: ChatCompletionUsage;
+	tool_configuration?: ToolConfigurationMetadata; // Extension: tool mode chosen for the request
 }
 
+export type OpenAIFinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
 export interface ChatCompletionChoice {
 	index: number;
 	message: ChatCompletionMessage;
-	finish_reason: "stop" | "length" | "tool_calls" | "content_filter" | null;
+	finish_reason: OpenAIFinishReason | null;
+	// Extensions exposing the raw Gemini finish reason and safety ratings
+	native_finish_reason?: string;
+	safety_ratings?: GeminiSafetyRating[];
 }
 
 export interface ChatCompletionMessage {
 	role: "assistant";
 	content: string | null;
 	tool_calls?: ToolCall[];
+	native_tool_calls?: NativeToolResponse[]; // Extension: output of native tools such as code execution
+	grounding?: GroundingMetadata; // Extension: raw grounding metadata of a search-grounded answer
+	annotations?: UrlCitationAnnotation[];
+	thought_signature?: string; // Extension: opaque, to be sent back with this message in the history
+	reasoning_content?: string;
+	thinking_blocks?: ThinkingBlock[];
+}
+
+// A single candidate collected from a non-streaming generation
+export interface GeneratedCandidate {
+	index: number;
+	content: string;
+	tool_calls?: ToolCall[];
+	native_tool_calls?: NativeToolResponse[];
+	grounding?: GroundingMetadata;
+	annotations?: UrlCitationAnnotation[];
+	thought_signature?: string;
+	reasoning?: string; // Real thinking, formatted by the route
+	finish?: FinishReasonData;
 }
 
 export interface ChatCompletionUsage {
 	prompt_tokens: number;
 	completion_tokens: number;
 	total_tokens: number;
+	prompt_tokens_details?: {
+		cached_tokens: number;
+		tool_use_prompt_tokens?: number;
+	};
+	completion_tokens_details?: {
+		reasoning_tokens: number;
+	};
+}
+
+// --- Legacy Text Completion Interfaces ---
+export interface CompletionRequest {
+	model: string;
+	prompt: string | string[];
+	suffix?: string;
+	echo?: boolean;
+	stream?: boolean;
+	stream_options?: StreamOptions;
+	max_tokens?: number;
+	temperature?: number;
+	top_p?: number;
+	stop?: string | string[];
+	presence_penalty?: number;
+	frequency_penalty?: number;
+	seed?: number;
+}
+
+export interface CompletionChoice {
+	text: string;
+	index: number;
+	logprobs: null;
+	finish_reason: OpenAIFinishReason | null;
+}
+
+export interface CompletionResponse {
+	id: string;
+	object: "text_completion";
+	created: number;
+	model: string;
+	choices: CompletionChoice[];
+	usage?: ChatCompletionUsage;
 }
 
 // --- Gemini Specific Types ---
 export interface GeminiFunctionCall {
+	id?: string; // Tool call id assigned when the call is received, shared by every output format
 	name: string;
 	args: object;
+	validationErrors?: string[]; // Schema violations left after argument repair
+	thoughtSignature?: string;
 }
 
 // --- Usage and Reasoning Data Types ---
 export interface UsageData {
 	inputTokens: number;
 	outputTokens: number;
+	thoughtsTokens?: number; // Reasoning tokens, billed as output
+	cachedTokens?: number; // Part of inputTokens served from the context cache
+	toolUsePromptTokens?: number; // Results of native tools fed back to the model
 }
 
 export interface ReasoningData {
@@ -204,6 +366,19 @@ export interface ReasoningData {
 	toolCode?: string;
 }
 
+// --- Finish and Safety Types ---
+export interface GeminiSafetyRating {
+	category: string;
+	probability: string;
+	blocked?: boolean;
+}
+
+export interface FinishReasonData {
+	reason: string; // Gemini finishReason, or the promptFeedback blockReason when the prompt was blocked
+	safetyRatings?: GeminiSafetyRating[];
+	promptBlocked?: boolean;
+}
+
 // --- Stream Chunk Types ---
 export interface StreamChunk {
 	type:
@@ -214,6 +389,20 @@ export interface StreamChunk {
 		| "real_thinking"
 		| "tool_code"
 		| "native_tool"
-		| "grounding_metadata";
-	data: string | UsageData | ReasoningData | GeminiFunctionCall | NativeToolResponse;
+		| "grounding_metadata"
+		| "citations"
+		| "thought_signature"
+		| "tool_configuration"
+		| "finish"
+		| "error"; // Generation failed after the stream started, data is the error message
+	data:
+		| string
+		| UsageData
+		| ReasoningData
+		| GeminiFunctionCall
+		| NativeToolResponse
+		| GroundingMetadata
+		| ToolConfigurationMetadata
+		| FinishReasonData;
+	index?: number; // Candidate the chunk belongs to when several choices are generated
 }
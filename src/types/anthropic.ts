@@ -0,0 +1,118 @@
+// Anthropic Messages API Type Definitions
+
+import { ThinkingFormat, ThinkingMode } from "../types";
+
+// --- Content Block Types ---
+export interface AnthropicTextBlock {
+	type: "text";
+	text: string;
+}
+
+export interface AnthropicImageBlock {
+	type: "image";
+	source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+}
+
+export interface AnthropicToolUseBlock {
+	type: "tool_use";
+	id: string;
+	name: string;
+	input: Record<string, unknown>;
+}
+
+export interface AnthropicToolResultBlock {
+	type: "tool_result";
+	tool_use_id: string;
+	content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+	is_error?: boolean;
+}
+
+export interface AnthropicThinkingBlock {
+	type: "thinking";
+	thinking: string;
+	signature?: string;
+}
+
+export interface AnthropicRedactedThinkingBlock {
+	type: "redacted_thinking";
+	data: string;
+}
+
+export type AnthropicContentBlock =
+	| AnthropicTextBlock
+	| AnthropicImageBlock
+	| AnthropicToolUseBlock
+	| AnthropicToolResultBlock
+	| AnthropicThinkingBlock
+	| AnthropicRedactedThinkingBlock;
+
+// --- Request Types ---
+export interface AnthropicMessage {
+	role: "user" | "assistant";
+	content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicCustomTool {
+	type?: "custom";
+	name: string;
+	description?: string;
+	input_schema: Record<string, unknown>;
+}
+
+export interface AnthropicServerTool {
+	type: string;
+	name: string;
+}
+
+export type AnthropicTool = AnthropicCustomTool | AnthropicServerTool;
+
+export interface AnthropicToolChoice {
+	type: "auto" | "any" | "tool" | "none";
+	name?: string;
+	disable_parallel_tool_use?: boolean;
+}
+
+export interface AnthropicMessagesRequest {
+	model: string;
+	max_tokens: number;
+	messages: AnthropicMessage[];
+	system?: string | AnthropicTextBlock[];
+	stream?: boolean;
+	temperature?: number;
+	top_p?: number;
+	top_k?: number;
+	stop_sequences?: string[];
+	tools?: AnthropicTool[];
+	tool_choice?: AnthropicToolChoice;
+	thinking?: { type: "enabled"; budget_tokens: number } | { type: "disabled" };
+	metadata?: Record<string, unknown>;
+	thinking_mode?: ThinkingMode; // Extension: overrides the thinking visibility, for allowed clients only
+	thinking_format?: ThinkingFormat; // Extension: anthropic_blocks for thinking blocks or think_tags for text
+}
+
+// --- Response Types ---
+export type AnthropicResponseBlock = AnthropicTextBlock | AnthropicToolUseBlock | AnthropicThinkingBlock;
+
+export type AnthropicStopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | "refusal";
+
+export interface AnthropicUsage {
+	input_tokens: number;
+	output_tokens: number;
+	cache_read_input_tokens?: number;
+}
+
+export interface AnthropicMessagesResponse {
+	id: string;
+	type: "message";
+	role: "assistant";
+	model: string;
+	content: AnthropicResponseBlock[];
+	stop_reason: AnthropicStopReason | null;
+	stop_sequence: string | null;
+	usage: AnthropicUsage;
+}
+
+export interface AnthropicStreamEvent {
+	type: string;
+	[key: string]: unknown;
+}
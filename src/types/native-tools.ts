@@ -13,7 +13,7 @@ export interface GroundingMetadata {
 }
 
 export interface GroundingChunk {
-	web: {
+	web?: {
 		uri: string;
 		title: string;
 	};
@@ -36,10 +36,42 @@ export interface GeminiUrlContextMetadata {
 	}>;
 }
 
+// URL context metadata as reported on a Gemini candidate
+export interface GeminiCandidateUrlContextMetadata {
+	urlMetadata?: Array<{
+		retrievedUrl: string;
+		urlRetrievalStatus: string;
+	}>;
+}
+
+// Search results reported to clients as a native tool response
+export interface SearchToolResult {
+	queries: string[];
+	sources: CitationSource[];
+	search_entry_point?: string;
+}
+
 // Native Tools Configuration
+export type NativeToolName = "google_search" | "url_context" | "code_execution";
+
+// OpenAI's web_search_options.search_context_size, Google Search has no equivalent so it only limits the cited sources
+export type SearchContextSize = "low" | "medium" | "high";
+
 export interface NativeTool {
 	google_search?: object;
 	url_context?: object;
+	code_execution?: object;
+}
+
+// Code Execution Types
+export interface GeminiExecutableCode {
+	language: string;
+	code: string;
+}
+
+export interface GeminiCodeExecutionResult {
+	outcome: string;
+	output?: string;
 }
 
 export interface NativeToolsConfiguration {
@@ -47,22 +79,39 @@ export interface NativeToolsConfiguration {
 	useCustomTools: boolean;
 	nativeTools: NativeTool[];
 	customTools?: Tool[];
-	priority: "native" | "custom";
-	toolType: "search_and_url" | "custom_only";
+	priority: "native" | "custom" | "mixed";
+	toolType: "search_and_url" | "custom_only" | "mixed";
+	fallbackReason?: string; // Why a requested mixed configuration was not used
+	citedSourceLimit?: number; // Set when Google Search is used with a search_context_size below high
+}
+
+// Tool configuration chosen for a request, reported back in the response metadata
+export interface ToolConfigurationMetadata {
+	mode: "native" | "custom" | "mixed";
+	native_tools: string[];
+	function_count: number;
+	fallback_reason?: string;
+	cited_source_limit?: number;
 }
 
 export interface NativeToolsRequestParams {
 	enableSearch?: boolean;
 	enableUrlContext?: boolean;
+	enableCodeExecution?: boolean;
+	inlineCodeExecution?: boolean;
 	enableNativeTools?: boolean;
 	nativeToolsPriority?: "native" | "custom" | "mixed";
+	webSearch?: boolean; // Search was requested with web_search_options, honored without ENABLE_GEMINI_NATIVE_TOOLS
+	searchContextSize?: SearchContextSize;
 }
 
 export interface NativeToolsEnvSettings {
 	enableNativeTools: boolean;
 	enableGoogleSearch: boolean;
 	enableUrlContext: boolean;
-	priority: "native_first" | "custom_first" | "user_choice";
+	enableCodeExecution: boolean;
+	inlineCodeExecution: boolean;
+	priority: "native_first" | "custom_first" | "user_choice" | "mixed";
 	defaultToNativeTools: boolean;
 	allowRequestControl: boolean;
 	enableInlineCitations: boolean;
@@ -77,8 +126,19 @@ export interface CitationSource {
 	uri: string;
 }
 
+// OpenAI-style citation of a web source, offsets are character positions in the message content
+export interface UrlCitationAnnotation {
+	type: "url_citation";
+	url_citation: {
+		start_index: number;
+		end_index: number;
+		url: string;
+		title: string;
+	};
+}
+
 export interface NativeToolResponse {
-	type: "search" | "url_context";
+	type: "search" | "url_context" | "code_execution" | "code_execution_result";
 	data: unknown;
 	metadata?: unknown;
 }
@@ -0,0 +1,169 @@
+// OpenAI Responses API Type Definitions
+
+import { EffortLevel, JsonSchemaFormat, ThinkingFormat, ThinkingMode } from "../types";
+
+// --- Request Types ---
+export interface ResponsesInputText {
+	type: "input_text" | "output_text";
+	text: string;
+}
+
+export interface ResponsesInputImage {
+	type: "input_image";
+	image_url?: string;
+	detail?: "low" | "high" | "auto";
+}
+
+export type ResponsesInputContent = ResponsesInputText | ResponsesInputImage;
+
+export interface ResponsesInputMessage {
+	type?: "message";
+	role: "user" | "assistant" | "system" | "developer";
+	content: string | ResponsesInputContent[];
+}
+
+export interface ResponsesFunctionCallItem {
+	type: "function_call";
+	id?: string;
+	call_id: string;
+	name: string;
+	arguments: string;
+}
+
+export interface ResponsesFunctionCallOutputItem {
+	type: "function_call_output";
+	call_id: string;
+	output: string | ResponsesInputContent[];
+}
+
+export interface ResponsesReasoningInputItem {
+	type: "reasoning";
+	id?: string;
+	summary?: Array<{ type: "summary_text"; text: string }>;
+}
+
+export type ResponsesInputItem =
+	| ResponsesInputMessage
+	| ResponsesFunctionCallItem
+	| ResponsesFunctionCallOutputItem
+	| ResponsesReasoningInputItem;
+
+export interface ResponsesFunctionTool {
+	type: "function";
+	name: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+	strict?: boolean;
+}
+
+export interface ResponsesWebSearchTool {
+	type: "web_search" | "web_search_preview";
+}
+
+export type ResponsesTool = ResponsesFunctionTool | ResponsesWebSearchTool;
+
+export type ResponsesToolChoice = "none" | "auto" | "required" | { type: "function"; name: string };
+
+// The Responses API flattens the json_schema options into the format object
+export type ResponsesTextFormat =
+	| { type: "text" }
+	| { type: "json_object" }
+	| ({ type: "json_schema" } & JsonSchemaFormat);
+
+export interface ResponsesRequest {
+	model: string;
+	input: string | ResponsesInputItem[];
+	instructions?: string;
+	stream?: boolean;
+	tools?: ResponsesTool[];
+	tool_choice?: ResponsesToolChoice;
+	parallel_tool_calls?: boolean;
+	max_output_tokens?: number;
+	temperature?: number;
+	top_p?: number;
+	reasoning?: {
+		effort?: EffortLevel;
+		summary?: "auto" | "concise" | "detailed";
+	};
+	text?: {
+		format?: ResponsesTextFormat;
+	};
+	metadata?: Record<string, string>;
+	thinking_mode?: ThinkingMode; // Extension: overrides the thinking visibility, for allowed clients only
+	thinking_format?: ThinkingFormat; // Extension: reasoning_content for reasoning items or think_tags for text
+}
+
+// --- Response Types ---
+export interface ResponsesOutputText {
+	type: "output_text";
+	text: string;
+	annotations: unknown[];
+}
+
+export interface ResponsesSummaryText {
+	type: "summary_text";
+	text: string;
+}
+
+export interface ResponsesMessageOutputItem {
+	type: "message";
+	id: string;
+	status: "in_progress" | "completed";
+	role: "assistant";
+	content: ResponsesOutputText[];
+}
+
+export interface ResponsesFunctionCallOutput {
+	type: "function_call";
+	id: string;
+	call_id: string;
+	name: string;
+	arguments: string;
+	status: "in_progress" | "completed";
+}
+
+export interface ResponsesReasoningOutputItem {
+	type: "reasoning";
+	id: string;
+	summary: ResponsesSummaryText[];
+}
+
+export type ResponsesOutputItem =
+	| ResponsesMessageOutputItem
+	| ResponsesFunctionCallOutput
+	| ResponsesReasoningOutputItem;
+
+export interface ResponsesUsage {
+	input_tokens: number;
+	output_tokens: number;
+	total_tokens: number;
+	input_tokens_details: { cached_tokens: number };
+	output_tokens_details: { reasoning_tokens: number };
+}
+
+export interface ResponsesResponse {
+	id: string;
+	object: "response";
+	created_at: number;
+	status: "in_progress" | "completed" | "incomplete" | "failed";
+	model: string;
+	output: ResponsesOutputItem[];
+	output_text?: string;
+	instructions: string | null;
+	tools: ResponsesTool[];
+	tool_choice: ResponsesToolChoice;
+	parallel_tool_calls: boolean;
+	temperature: number | null;
+	top_p: number | null;
+	max_output_tokens: number | null;
+	metadata: Record<string, string>;
+	text: { format: ResponsesTextFormat };
+	error: { code: string; message: string } | null;
+	incomplete_details: { reason: "max_output_tokens" | "content_filter" } | null;
+	usage: ResponsesUsage | null;
+}
+
+export interface ResponsesStreamEvent {
+	type: string;
+	[key: string]: unknown;
+}